@@ -0,0 +1,158 @@
+import { renderHook, act } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
+import { createElement } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { useBreakpoint } from '../../hooks/browser/useBreakpoint'
+import { useMediaQuery } from '../../hooks/browser/useMediaQuery'
+
+const queries = {
+  sm: '(min-width: 640px)',
+  md: '(min-width: 768px)',
+  lg: '(min-width: 1024px)',
+}
+
+// matchMedia backed by a viewport width, with a count of the attached listeners per query
+const createViewport = (initialWidth: number) => {
+  let width = initialWidth
+  const listeners = new Map<string, Set<(event: MediaQueryListEvent) => void>>()
+  const evaluate = (query: string) => width >= Number(/(\d+)px/.exec(query)?.[1] ?? 0)
+
+  const matchMedia = vi.fn((query: string) => {
+    const queryListeners = listeners.get(query) ?? new Set()
+    listeners.set(query, queryListeners)
+    return {
+      matches: evaluate(query),
+      media: query,
+      onchange: null,
+      addEventListener: (_type: string, cb: (event: MediaQueryListEvent) => void) =>
+        queryListeners.add(cb),
+      removeEventListener: (_type: string, cb: (event: MediaQueryListEvent) => void) =>
+        queryListeners.delete(cb),
+      addListener: () => {},
+      removeListener: () => {},
+      dispatchEvent: () => false,
+    } as MediaQueryList
+  })
+
+  return {
+    matchMedia,
+    listenerCount: (query: string) => listeners.get(query)?.size ?? 0,
+    resize: (nextWidth: number) => {
+      width = nextWidth
+      listeners.forEach((queryListeners, query) =>
+        queryListeners.forEach((cb) =>
+          cb({ matches: evaluate(query), media: query } as MediaQueryListEvent),
+        ),
+      )
+    },
+  }
+}
+
+describe('useBreakpoint', () => {
+  const originalMatchMedia = window.matchMedia
+
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    window.matchMedia = originalMatchMedia
+  })
+
+  it('returns the active key and the map of matches', () => {
+    const viewport = createViewport(800)
+    window.matchMedia = viewport.matchMedia
+
+    const { result } = renderHook(() => useBreakpoint(queries))
+
+    expect(result.current.active).toBe('md')
+    expect(result.current.matches).toEqual({ sm: true, md: true, lg: false })
+  })
+
+  it('follows viewport changes', () => {
+    const viewport = createViewport(500)
+    window.matchMedia = viewport.matchMedia
+
+    const { result } = renderHook(() => useBreakpoint(queries))
+    expect(result.current.active).toBeNull()
+
+    act(() => viewport.resize(1200))
+    expect(result.current.active).toBe('lg')
+    expect(result.current.matches).toEqual({ sm: true, md: true, lg: true })
+
+    act(() => viewport.resize(700))
+    expect(result.current.active).toBe('sm')
+  })
+
+  it('shares one listener per query across hook instances', () => {
+    const viewport = createViewport(800)
+    window.matchMedia = viewport.matchMedia
+
+    const first = renderHook(() => useBreakpoint(queries))
+    const second = renderHook(() => useBreakpoint({ ...queries }))
+    const single = renderHook(() => useMediaQuery(queries.md))
+
+    Object.values(queries).forEach((query) => expect(viewport.listenerCount(query)).toBe(1))
+
+    act(() => viewport.resize(300))
+    expect(first.result.current.active).toBeNull()
+    expect(second.result.current.active).toBeNull()
+    expect(single.result.current.matches).toBe(false)
+
+    first.unmount()
+    second.unmount()
+    expect(viewport.listenerCount(queries.sm)).toBe(0)
+    expect(viewport.listenerCount(queries.md)).toBe(1)
+
+    single.unmount()
+    expect(viewport.listenerCount(queries.md)).toBe(0)
+  })
+
+  it('does not resubscribe when an inline map is passed every render', () => {
+    const viewport = createViewport(800)
+    window.matchMedia = viewport.matchMedia
+
+    const { rerender } = renderHook(() => useBreakpoint({ ...queries }))
+    const calls = viewport.matchMedia.mock.calls.length
+    rerender()
+    rerender()
+
+    expect(viewport.matchMedia.mock.calls.length).toBe(calls)
+  })
+
+  it('switches to a different map of queries', () => {
+    const viewport = createViewport(900)
+    window.matchMedia = viewport.matchMedia
+
+    const { result, rerender } = renderHook(({ map }) => useBreakpoint(map), {
+      initialProps: { map: queries as Record<string, string> },
+    })
+    expect(result.current.active).toBe('md')
+
+    rerender({ map: { mobile: '(min-width: 0px)', desktop: '(min-width: 1000px)' } })
+    expect(result.current.matches).toEqual({ mobile: true, desktop: false })
+    expect(result.current.active).toBe('mobile')
+    expect(viewport.listenerCount(queries.sm)).toBe(0)
+  })
+
+  it('uses defaultMatch per key without matchMedia', () => {
+    window.matchMedia = undefined as unknown as typeof window.matchMedia
+
+    const { result } = renderHook(() =>
+      useBreakpoint(queries, { defaultMatch: { sm: true, md: true } }),
+    )
+
+    expect(result.current.matches).toEqual({ sm: true, md: true, lg: false })
+    expect(result.current.active).toBe('md')
+  })
+
+  it('renders with ssrMatchMedia on the server', () => {
+    vi.stubGlobal('window', undefined)
+    const ssrMatchMedia = (query: string) => ({ matches: query === queries.sm })
+
+    const Probe = () => useBreakpoint(queries, { ssrMatchMedia }).active ?? 'none'
+
+    expect(renderToString(createElement(Probe))).toBe('sm')
+  })
+})
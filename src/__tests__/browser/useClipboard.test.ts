@@ -6,6 +6,17 @@ describe('useClipboard', () => {
   const originalWindow = globalThis.window
   const originalNavigator = globalThis.navigator
 
+  class FakeClipboardItem {
+    constructor(public items: Record<string, Blob | Promise<Blob>>) {}
+  }
+
+  const readBlob = (blob: Blob) =>
+    new Promise<string>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(blob)
+    })
+
   beforeEach(() => {
     vi.useFakeTimers()
   })
@@ -14,14 +25,16 @@ describe('useClipboard', () => {
     vi.useRealTimers()
     globalThis.window = originalWindow
     globalThis.navigator = originalNavigator
+    vi.unstubAllGlobals()
     vi.restoreAllMocks()
   })
 
   it('returns false when no element is attached', async () => {
     const { result } = renderHook(() => useClipboard())
-    const success = await result.current.copy()
+    const success = await act(async () => result.current.copy())
     expect(success).toBe(false)
     expect(result.current.copied).toBe(false)
+    expect(result.current.error?.message).toBe('No element to copy from')
   })
 
   it('returns false when clipboard API is missing', async () => {
@@ -31,9 +44,10 @@ describe('useClipboard', () => {
     div.textContent = 'sample'
     ;(result.current.ref as React.MutableRefObject<HTMLElement | null>).current = div
 
-    const success = await result.current.copy()
+    const success = await act(async () => result.current.copy())
     expect(success).toBe(false)
     expect(result.current.copied).toBe(false)
+    expect(result.current.error?.message).toBe('Clipboard API is not available')
   })
 
   it('copies text and resets copied after timeout', async () => {
@@ -56,4 +70,405 @@ describe('useClipboard', () => {
     })
     expect(result.current.copied).toBe(false)
   })
+
+  it('copies an explicit string instead of the element text', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    // @ts-expect-error allow overriding navigator for the test
+    globalThis.navigator = { clipboard: { writeText } } as Navigator
+    const onCopy = vi.fn()
+
+    const { result } = renderHook(() => useClipboard({ onCopy }))
+    const success = await act(async () => result.current.copy('explicit'))
+
+    expect(success).toBe(true)
+    expect(writeText).toHaveBeenCalledWith('explicit')
+    expect(onCopy).toHaveBeenCalledWith('explicit', 'clipboard-api')
+    expect(result.current.copied).toBe(true)
+    expect(result.current.strategy).toBe('clipboard-api')
+  })
+
+  it('ignores non-string arguments such as click events', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    // @ts-expect-error allow overriding navigator for the test
+    globalThis.navigator = { clipboard: { writeText } } as Navigator
+
+    const { result } = renderHook(() => useClipboard())
+    const div = document.createElement('div')
+    div.textContent = 'from ref'
+    ;(result.current.ref as React.MutableRefObject<HTMLElement | null>).current = div
+
+    const click = {
+      type: 'click',
+      nativeEvent: new MouseEvent('click'),
+    } as unknown as React.SyntheticEvent
+    await act(async () => result.current.copy(click))
+    expect(writeText).toHaveBeenCalledWith('from ref')
+  })
+
+  it('copies from another element with copyFrom', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    // @ts-expect-error allow overriding navigator for the test
+    globalThis.navigator = { clipboard: { writeText } } as Navigator
+
+    const { result } = renderHook(() => useClipboard())
+    const other = document.createElement('pre')
+    other.textContent = 'npm i react'
+
+    const success = await act(async () => result.current.copyFrom({ current: other }))
+    expect(success).toBe(true)
+    expect(writeText).toHaveBeenCalledWith('npm i react')
+  })
+
+  it('uses the configured reset timeout and restarts it on every copy', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    // @ts-expect-error allow overriding navigator for the test
+    globalThis.navigator = { clipboard: { writeText } } as Navigator
+
+    const { result } = renderHook(() => useClipboard({ timeout: 1000 }))
+    await act(async () => result.current.copy('a'))
+
+    act(() => {
+      vi.advanceTimersByTime(800)
+    })
+    await act(async () => result.current.copy('b'))
+    act(() => {
+      vi.advanceTimersByTime(800)
+    })
+    expect(result.current.copied).toBe(true)
+
+    act(() => {
+      vi.advanceTimersByTime(200)
+    })
+    expect(result.current.copied).toBe(false)
+  })
+
+  it('keeps copied until reset when the timeout is 0', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    // @ts-expect-error allow overriding navigator for the test
+    globalThis.navigator = { clipboard: { writeText } } as Navigator
+
+    const { result } = renderHook(() => useClipboard({ timeout: 0 }))
+    await act(async () => result.current.copy('sticky'))
+
+    act(() => {
+      vi.advanceTimersByTime(60000)
+    })
+    expect(result.current.copied).toBe(true)
+
+    act(() => {
+      result.current.reset()
+    })
+    expect(result.current.copied).toBe(false)
+  })
+
+  it('exposes the error and calls onError when writing fails', async () => {
+    const failure = new Error('Write permission denied')
+    const writeText = vi.fn().mockRejectedValue(failure)
+    // @ts-expect-error allow overriding navigator for the test
+    globalThis.navigator = { clipboard: { writeText } } as Navigator
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const onError = vi.fn()
+    const onCopy = vi.fn()
+
+    const { result } = renderHook(() => useClipboard({ onCopy, onError }))
+    const success = await act(async () => result.current.copy('secret'))
+
+    expect(success).toBe(false)
+    expect(result.current.error).toBe(failure)
+    expect(onError).toHaveBeenCalledWith(failure)
+    expect(onCopy).not.toHaveBeenCalled()
+
+    writeText.mockResolvedValue(undefined)
+    await act(async () => result.current.copy('secret'))
+    expect(result.current.error).toBeNull()
+  })
+
+  describe('rich content', () => {
+    beforeEach(() => {
+      vi.stubGlobal('ClipboardItem', FakeClipboardItem)
+    })
+
+    it('copies html with a plain-text fallback derived from the markup', async () => {
+      // FileReader resolves on a real timer
+      vi.useRealTimers()
+      const write = vi.fn().mockResolvedValue(undefined)
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { write, writeText: vi.fn() } } as Navigator
+      const onCopy = vi.fn()
+
+      const { result } = renderHook(() => useClipboard({ onCopy }))
+      const success = await act(async () =>
+        result.current.copyHtml('<p>Hello <strong>team</strong><img src="x" onerror="boom()"></p>'),
+      )
+
+      expect(success).toBe(true)
+      const [[[item]]] = write.mock.calls
+      expect(Object.keys(item.items)).toEqual(['text/html', 'text/plain'])
+      expect(await readBlob(item.items['text/plain'])).toBe('Hello team')
+      expect(await readBlob(item.items['text/html'])).toContain('<strong>team</strong>')
+      expect(onCopy).toHaveBeenCalledWith(expect.stringContaining('<p>'), 'clipboard-api')
+      expect(result.current.copied).toBe(true)
+    })
+
+    it('uses the given plain text and falls back to writeText without ClipboardItem', async () => {
+      vi.stubGlobal('ClipboardItem', undefined)
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { writeText } } as Navigator
+
+      const { result } = renderHook(() => useClipboard())
+      const success = await act(async () => result.current.copyHtml('<b>bold</b>', 'BOLD'))
+
+      expect(success).toBe(true)
+      expect(writeText).toHaveBeenCalledWith('BOLD')
+    })
+
+    it('copies a canvas as a PNG image', async () => {
+      const write = vi.fn(async ([item]: FakeClipboardItem[]) => {
+        await item?.items['image/png']
+      })
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { write } } as Navigator
+      const png = new Blob(['png'], { type: 'image/png' })
+      const canvas = {
+        toBlob: (callback: BlobCallback, type?: string) =>
+          callback(type === 'image/png' ? png : null),
+      } as HTMLCanvasElement
+      const onCopy = vi.fn()
+
+      const { result } = renderHook(() => useClipboard({ onCopy }))
+      const success = await act(async () => result.current.copyImage(canvas))
+
+      expect(success).toBe(true)
+      expect(write.mock.calls[0]?.[0][0]?.items['image/png']).toBeInstanceOf(Promise)
+      expect(onCopy).toHaveBeenCalledWith(png, 'clipboard-api')
+    })
+
+    it('reports a rejected image write when the encoding fails as well', async () => {
+      vi.useRealTimers()
+      const unhandled = vi.fn()
+      process.on('unhandledRejection', unhandled)
+      const write = vi.fn().mockRejectedValue(new Error('Write permission denied'))
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { write } } as Navigator
+      // the encoding fails after the write was already rejected
+      const canvas = {
+        toBlob: (callback: BlobCallback) => {
+          setTimeout(() => callback(null))
+        },
+      } as HTMLCanvasElement
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const { result } = renderHook(() => useClipboard())
+      const success = await act(async () => result.current.copyImage(canvas))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      process.off('unhandledRejection', unhandled)
+
+      expect(success).toBe(false)
+      expect(result.current.error?.message).toBe('Write permission denied')
+      expect(unhandled).not.toHaveBeenCalled()
+    })
+
+    it('fails to copy an image when ClipboardItem is missing', async () => {
+      vi.stubGlobal('ClipboardItem', undefined)
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { writeText: vi.fn() } } as Navigator
+
+      const { result } = renderHook(() => useClipboard())
+      const success = await act(async () =>
+        result.current.copyImage(document.createElement('canvas')),
+      )
+
+      expect(success).toBe(false)
+      expect(result.current.error?.message).toBe('Copying images is not supported')
+    })
+  })
+
+  describe('reading', () => {
+    const mockPermission = (state: PermissionState) => {
+      const status = { state, addEventListener: vi.fn(), removeEventListener: vi.fn() }
+      const query = vi.fn().mockResolvedValue(status)
+      return { status, query }
+    }
+
+    it('reads text and tracks the clipboard-read permission', async () => {
+      const { query } = mockPermission('granted')
+      const readText = vi.fn().mockResolvedValue('pasted')
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { readText }, permissions: { query } } as Navigator
+
+      const { result } = renderHook(() => useClipboard())
+      await act(async () => {})
+
+      expect(query).toHaveBeenCalledWith({ name: 'clipboard-read' })
+      expect(result.current.readPermission).toBe('granted')
+      expect(await act(async () => result.current.readText())).toBe('pasted')
+    })
+
+    it('reads clipboard items', async () => {
+      const items = [new FakeClipboardItem({ 'text/plain': new Blob(['a']) })]
+      const read = vi.fn().mockResolvedValue(items)
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { read } } as Navigator
+
+      const { result } = renderHook(() => useClipboard())
+      expect(await act(async () => result.current.read())).toBe(items)
+      expect(result.current.readPermission).toBe('unavailable')
+    })
+
+    it('does not read when the permission is denied', async () => {
+      const { query } = mockPermission('denied')
+      const readText = vi.fn()
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { readText }, permissions: { query } } as Navigator
+      const onError = vi.fn()
+
+      const { result } = renderHook(() => useClipboard({ onError }))
+      await act(async () => {})
+
+      expect(await act(async () => result.current.readText())).toBeNull()
+      expect(readText).not.toHaveBeenCalled()
+      expect(result.current.error?.message).toBe('Clipboard read permission denied')
+      expect(onError).toHaveBeenCalled()
+    })
+
+    it('follows permission changes and stops listening on unmount', async () => {
+      const { status, query } = mockPermission('prompt')
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: {}, permissions: { query } } as Navigator
+
+      const { result, unmount } = renderHook(() => useClipboard())
+      await act(async () => {})
+      expect(result.current.readPermission).toBe('prompt')
+
+      const [, onChange] = status.addEventListener.mock.calls[0] as [string, () => void]
+      status.state = 'granted'
+      act(() => onChange())
+      expect(result.current.readPermission).toBe('granted')
+
+      unmount()
+      expect(status.removeEventListener).toHaveBeenCalledWith('change', onChange)
+    })
+
+    it('reports a rejected read', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const failure = Object.assign(new Error('Read permission denied.'), {
+        name: 'NotAllowedError',
+      })
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = {
+        clipboard: { readText: vi.fn().mockRejectedValue(failure) },
+      } as Navigator
+
+      const { result } = renderHook(() => useClipboard())
+      expect(await act(async () => result.current.readText())).toBeNull()
+      expect(result.current.error).toBe(failure)
+    })
+  })
+
+  describe('execCommand fallback', () => {
+    let copiedText: string | null
+    let execCommand: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      copiedText = null
+      execCommand = vi.fn((command: string) => {
+        const textarea = document.querySelector('textarea') as HTMLTextAreaElement
+        copiedText = textarea.value.slice(textarea.selectionStart, textarea.selectionEnd)
+        return command === 'copy'
+      })
+      document.execCommand = execCommand as unknown as Document['execCommand']
+    })
+
+    afterEach(() => {
+      // jsdom has no execCommand of its own
+      delete (document as Partial<Document>).execCommand
+      document.body.innerHTML = ''
+    })
+
+    it('copies through a hidden textarea when the Clipboard API is missing', async () => {
+      globalThis.navigator = { clipboard: undefined as unknown as Clipboard } as Navigator
+      const onCopy = vi.fn()
+
+      const { result } = renderHook(() => useClipboard({ onCopy }))
+      const success = await act(async () => result.current.copy('insecure host'))
+
+      expect(success).toBe(true)
+      expect(execCommand).toHaveBeenCalledWith('copy')
+      expect(copiedText).toBe('insecure host')
+      expect(document.querySelector('textarea')).toBeNull()
+      expect(result.current.strategy).toBe('exec-command')
+      expect(onCopy).toHaveBeenCalledWith('insecure host', 'exec-command')
+    })
+
+    it('falls back when the Clipboard API rejects', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const writeText = vi.fn().mockRejectedValue(new Error('Document is not focused'))
+      // @ts-expect-error allow overriding navigator for the test
+      globalThis.navigator = { clipboard: { writeText } } as Navigator
+
+      const { result } = renderHook(() => useClipboard())
+      const success = await act(async () => result.current.copy('webview'))
+
+      expect(success).toBe(true)
+      expect(writeText).toHaveBeenCalled()
+      expect(copiedText).toBe('webview')
+      expect(result.current.strategy).toBe('exec-command')
+      expect(result.current.error).toBeNull()
+    })
+
+    it('restores the focused field and its selection', async () => {
+      globalThis.navigator = { clipboard: undefined as unknown as Clipboard } as Navigator
+      const input = document.createElement('input')
+      input.value = 'hello world'
+      document.body.appendChild(input)
+      input.focus()
+      input.setSelectionRange(6, 11)
+
+      const { result } = renderHook(() => useClipboard())
+      await act(async () => result.current.copy('other'))
+
+      expect(document.activeElement).toBe(input)
+      expect([input.selectionStart, input.selectionEnd]).toEqual([6, 11])
+    })
+
+    it('restores a text selection on the page', async () => {
+      globalThis.navigator = { clipboard: undefined as unknown as Clipboard } as Navigator
+      const paragraph = document.createElement('p')
+      paragraph.textContent = 'selected by the user'
+      document.body.appendChild(paragraph)
+      const range = document.createRange()
+      range.selectNodeContents(paragraph)
+      document.getSelection()?.removeAllRanges()
+      document.getSelection()?.addRange(range)
+
+      const { result } = renderHook(() => useClipboard())
+      await act(async () => result.current.copy('other'))
+
+      expect(document.getSelection()?.toString()).toBe('selected by the user')
+    })
+
+    it('reports a rejected copy command', async () => {
+      globalThis.navigator = { clipboard: undefined as unknown as Clipboard } as Navigator
+      execCommand.mockReturnValue(false)
+
+      const { result } = renderHook(() => useClipboard())
+      const success = await act(async () => result.current.copy('blocked'))
+
+      expect(success).toBe(false)
+      expect(result.current.error?.message).toBe('Copy command was rejected')
+      expect(result.current.strategy).toBeNull()
+    })
+
+    it('can be turned off', async () => {
+      globalThis.navigator = { clipboard: undefined as unknown as Clipboard } as Navigator
+
+      const { result } = renderHook(() => useClipboard({ fallback: false }))
+      const success = await act(async () => result.current.copy('nope'))
+
+      expect(success).toBe(false)
+      expect(execCommand).not.toHaveBeenCalled()
+      expect(result.current.error?.message).toBe('Clipboard API is not available')
+    })
+  })
 })
@@ -2,6 +2,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
 import { useColorScheme } from '../../hooks/browser/useColorScheme'
+import { createMemoryAdapter } from '../../utils/storage/storage-adapter'
 
 // Mock the isSSR helper
 vi.mock('../../helpers/is-ssr', () => ({
@@ -217,6 +218,46 @@ describe('useColorScheme', () => {
         expect.stringContaining('"mode":"dark"'),
       )
     })
+
+    it('should persist through a custom storage adapter', async () => {
+      const adapter = createMemoryAdapter({ 'color-scheme': JSON.stringify({ mode: 'dark' }) })
+
+      const { result } = renderHook(() => useColorScheme({ storage: adapter }))
+
+      await act(async () => {
+        await vi.runAllTimersAsync()
+      })
+      expect(result.current.mode).toBe('dark')
+
+      act(() => {
+        result.current.setMode('light')
+      })
+      expect(adapter.get('color-scheme')).toContain('"mode":"light"')
+
+      act(() => {
+        result.current.resetScheme()
+      })
+      expect(adapter.get('color-scheme')).toBeNull()
+    })
+
+    it('should store the mode under the namespace', async () => {
+      const adapter = createMemoryAdapter({ 'color-scheme': JSON.stringify({ mode: 'dark' }) })
+
+      const { result } = renderHook(() =>
+        useColorScheme({ storage: adapter, namespace: 'checkout' }),
+      )
+
+      await act(async () => {
+        await vi.runAllTimersAsync()
+      })
+      expect(result.current.mode).toBe('system')
+
+      act(() => {
+        result.current.setMode('light')
+      })
+      expect(adapter.get('checkout:color-scheme')).toContain('"mode":"light"')
+      expect(adapter.get('color-scheme')).toContain('"mode":"dark"')
+    })
   })
 
   describe('mode changes', () => {
@@ -650,6 +650,260 @@ describe('useIdle', () => {
     })
   })
 
+  describe('Options', () => {
+    const documentEvent = (type: string, target: EventTarget = document) => {
+      act(() => {
+        target.dispatchEvent(new Event(type))
+      })
+    }
+
+    it('should use a custom timeout', () => {
+      const now = Date.now()
+      vi.mocked(Date.now).mockReturnValue(now)
+
+      const { result } = renderHook(() => useIdle({ timeout: 5000 }))
+
+      act(() => {
+        vi.mocked(Date.now).mockReturnValue(now + 5000)
+        vi.advanceTimersByTime(5000)
+      })
+
+      expect(result.current.isIdle).toBe(true)
+    })
+
+    it('should start active when mounted long after the page loaded', () => {
+      const onIdle = vi.fn()
+      // the module was imported well before this mount
+      const mountedAt = Date.now() + 10 * 60 * 1000
+      vi.mocked(Date.now).mockReturnValue(mountedAt)
+
+      const { result } = renderHook(() => useIdle({ timeout: 60000, onIdle }))
+      expect(result.current.lastActivity).toBe(mountedAt)
+
+      act(() => {
+        vi.mocked(Date.now).mockReturnValue(mountedAt + 1000)
+        vi.advanceTimersByTime(1000)
+      })
+
+      expect(result.current.isIdle).toBe(false)
+      expect(onIdle).not.toHaveBeenCalled()
+    })
+
+    it('should treat touch, wheel and nested scrolls as activity', () => {
+      let clock = Date.now()
+      vi.mocked(Date.now).mockReturnValue(clock)
+      const scroller = document.createElement('div')
+      document.body.appendChild(scroller)
+
+      const { result } = renderHook(() => useIdle({ timeout: 5000 }))
+
+      for (const [type, target] of [
+        ['touchstart', document],
+        ['wheel', document],
+        // scroll does not bubble, the capturing document listener still sees it
+        ['scroll', scroller],
+      ] as const) {
+        clock += 6000
+        act(() => {
+          vi.mocked(Date.now).mockReturnValue(clock)
+          vi.advanceTimersByTime(6000)
+        })
+        expect(result.current.isIdle).toBe(true)
+
+        documentEvent(type, target)
+        expect(result.current.isIdle).toBe(false)
+      }
+      scroller.remove()
+    })
+
+    it('should count coming back to the tab as activity, not leaving it', () => {
+      const now = Date.now()
+      vi.mocked(Date.now).mockReturnValue(now)
+      let visibility: DocumentVisibilityState = 'hidden'
+      vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibility)
+
+      const { result } = renderHook(() => useIdle({ timeout: 5000 }))
+
+      act(() => {
+        vi.mocked(Date.now).mockReturnValue(now + 5000)
+        vi.advanceTimersByTime(5000)
+      })
+
+      documentEvent('visibilitychange')
+      expect(result.current.isIdle).toBe(true)
+
+      visibility = 'visible'
+      documentEvent('visibilitychange')
+      expect(result.current.isIdle).toBe(false)
+    })
+
+    it('should only listen to the configured events', () => {
+      const documentSpy = vi.spyOn(document, 'addEventListener')
+
+      renderHook(() => useIdle({ events: ['pointerdown', 'scroll'] }))
+
+      expect(addEventListener).toHaveBeenCalledTimes(1)
+      expect(addEventListener).toHaveBeenCalledWith('pointerdown', expect.any(Function))
+      expect(documentSpy).toHaveBeenCalledTimes(1)
+      expect(documentSpy).toHaveBeenCalledWith('scroll', expect.any(Function), {
+        capture: true,
+        passive: true,
+      })
+    })
+
+    it('should not re-attach listeners for an inline events array', () => {
+      const { rerender } = renderHook(() => useIdle({ events: ['mousemove'] }))
+
+      rerender()
+      rerender()
+
+      expect(addEventListener).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stay idle with initialState until there is activity', () => {
+      const onActive = vi.fn()
+      const { result } = renderHook(() => useIdle({ initialState: true, onActive }))
+
+      expect(result.current.isIdle).toBe(true)
+
+      act(() => {
+        vi.advanceTimersByTime(2000)
+      })
+      expect(result.current.isIdle).toBe(true)
+
+      act(() => {
+        triggerEvent('mousemove')
+      })
+      expect(result.current.isIdle).toBe(false)
+      expect(onActive).toHaveBeenCalledTimes(1)
+    })
+
+    it('should call onIdle and onActive once per transition', () => {
+      const now = Date.now()
+      vi.mocked(Date.now).mockReturnValue(now)
+      const onIdle = vi.fn()
+      const onActive = vi.fn()
+
+      renderHook(() => useIdle({ timeout: 2000, onIdle, onActive }))
+
+      act(() => {
+        vi.mocked(Date.now).mockReturnValue(now + 5000)
+        vi.advanceTimersByTime(5000)
+      })
+      expect(onIdle).toHaveBeenCalledTimes(1)
+      expect(onActive).not.toHaveBeenCalled()
+
+      act(() => {
+        triggerEvent('mousemove')
+        triggerEvent('keydown')
+      })
+      expect(onActive).toHaveBeenCalledTimes(1)
+      expect(onIdle).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Cross-tab coordination', () => {
+    // in-memory BroadcastChannel, instances with the same name are the tabs of the app
+    class FakeBroadcastChannel {
+      static open: FakeBroadcastChannel[] = []
+      onmessage: ((event: MessageEvent) => void) | null = null
+      posted: unknown[] = []
+
+      constructor(public name: string) {
+        FakeBroadcastChannel.open.push(this)
+      }
+
+      postMessage(data: unknown) {
+        this.posted.push(data)
+        FakeBroadcastChannel.open
+          .filter((channel) => channel !== this && channel.name === this.name)
+          .forEach((channel) => channel.onmessage?.({ data } as MessageEvent))
+      }
+
+      close() {
+        FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter((channel) => channel !== this)
+      }
+    }
+
+    beforeEach(() => {
+      FakeBroadcastChannel.open = []
+      vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should stay active while another tab is active', () => {
+      const now = Date.now()
+      vi.mocked(Date.now).mockReturnValue(now)
+      const otherTab = new FakeBroadcastChannel('garuda-hooks:idle')
+
+      const { result } = renderHook(() => useIdle({ timeout: 5000, crossTab: true }))
+
+      act(() => {
+        vi.mocked(Date.now).mockReturnValue(now + 4000)
+        vi.advanceTimersByTime(4000)
+        otherTab.postMessage({ type: 'activity', at: now + 4000 })
+      })
+      act(() => {
+        vi.mocked(Date.now).mockReturnValue(now + 8000)
+        vi.advanceTimersByTime(4000)
+      })
+
+      expect(result.current.isIdle).toBe(false)
+      expect(result.current.lastActivity).toBe(now + 4000)
+    })
+
+    it('should share local activity with the other tabs, throttled', () => {
+      const now = Date.now()
+      vi.mocked(Date.now).mockReturnValue(now)
+
+      renderHook(() => useIdle({ crossTab: 'my-app' }))
+      const [channel] = FakeBroadcastChannel.open
+
+      act(() => {
+        triggerEvent('mousemove')
+        vi.mocked(Date.now).mockReturnValue(now + 500)
+        triggerEvent('mousemove')
+        vi.mocked(Date.now).mockReturnValue(now + 1000)
+        triggerEvent('mousemove')
+      })
+
+      expect(channel?.name).toBe('my-app')
+      expect(channel?.posted).toEqual([
+        { type: 'activity', at: now },
+        { type: 'activity', at: now + 1000 },
+      ])
+    })
+
+    it('should ignore other tabs while paused and close the channel on unmount', () => {
+      const now = Date.now()
+      vi.mocked(Date.now).mockReturnValue(now)
+      const otherTab = new FakeBroadcastChannel('garuda-hooks:idle')
+
+      const { result, unmount } = renderHook(() => useIdle({ crossTab: true }))
+
+      act(() => {
+        result.current.pause?.()
+      })
+      const lastActivityAtPause = result.current.lastActivity
+
+      act(() => {
+        otherTab.postMessage({ type: 'activity', at: now + 1000 })
+      })
+      expect(result.current.lastActivity).toBe(lastActivityAtPause)
+
+      unmount()
+      expect(FakeBroadcastChannel.open).toEqual([otherTab])
+    })
+
+    it('should not open a channel unless asked to', () => {
+      renderHook(() => useIdle())
+      expect(FakeBroadcastChannel.open).toEqual([])
+    })
+  })
+
   describe('SSR compatibility', () => {
     it('should handle SSR environment gracefully', async () => {
       vi.clearAllMocks()
@@ -135,17 +135,21 @@ describe('useMediaQuery', () => {
   })
 
   it('respects initializeWithValue=false then updates on change', () => {
-    const mock = createMatchMediaMock(false)
+    const mock = createMatchMediaMock(true)
     window.matchMedia = vi.fn().mockReturnValue(mock.media)
+    const rendered: boolean[] = []
 
-    const { result } = renderHook(() =>
-      useMediaQuery('(min-width: 600px)', {
-        defaultMatch: true,
+    const { result } = renderHook(() => {
+      const { matches } = useMediaQuery('(min-width: 600px)', {
+        defaultMatch: false,
         initializeWithValue: false,
-      }),
-    )
+      })
+      rendered.push(matches)
+      return { matches }
+    })
 
-    // initial should follow defaultMatch
+    // the first render follows defaultMatch, like the server render
+    expect(rendered[0]).toBe(false)
     expect(result.current.matches).toBe(true)
 
     act(() => {
@@ -154,6 +158,21 @@ describe('useMediaQuery', () => {
     expect(result.current.matches).toBe(false)
   })
 
+  it('reads the current match after mount with initializeWithValue=false', () => {
+    // a preference that matches from the start never fires a change event
+    const mock = createMatchMediaMock(true)
+    window.matchMedia = vi.fn().mockReturnValue(mock.media)
+
+    const { result } = renderHook(() =>
+      useMediaQuery('(prefers-reduced-motion: reduce)', {
+        defaultMatch: false,
+        initializeWithValue: false,
+      }),
+    )
+
+    expect(result.current.matches).toBe(true)
+  })
+
   it('recomputes when query changes', () => {
     const mockSmall = createMatchMediaMock(false)
     const mockLarge = createMatchMediaMock(true)
@@ -177,4 +196,73 @@ describe('useMediaQuery', () => {
     })
     expect(result.current.matches).toBe(true)
   })
+
+  describe('legacy MediaQueryList', () => {
+    // Safari before 14: no EventTarget methods, listeners get the MediaQueryList itself
+    const createLegacyMedia = (initial: boolean, withEventTarget: 'missing' | 'throwing') => {
+      const listeners = new Set<(media: MediaQueryList) => void>()
+      const media = {
+        matches: initial,
+        media: '(min-width: 600px)',
+        onchange: null,
+        addListener: vi.fn((cb: (media: MediaQueryList) => void) => listeners.add(cb)),
+        removeListener: vi.fn((cb: (media: MediaQueryList) => void) => listeners.delete(cb)),
+        dispatchEvent: () => false,
+        ...(withEventTarget === 'throwing'
+          ? {
+              addEventListener: () => {
+                throw new TypeError('addEventListener is not supported')
+              },
+              removeEventListener: vi.fn(),
+            }
+          : {}),
+      }
+      return {
+        media: media as unknown as MediaQueryList,
+        listenerCount: () => listeners.size,
+        trigger: (next: boolean) => {
+          media.matches = next
+          listeners.forEach((cb) => cb(media as unknown as MediaQueryList))
+        },
+      }
+    }
+
+    it('updates through addListener when addEventListener is missing', () => {
+      const legacy = createLegacyMedia(false, 'missing')
+      window.matchMedia = vi.fn().mockReturnValue(legacy.media)
+
+      const { result } = renderHook(() => useMediaQuery('(min-width: 600px)'))
+      expect(result.current.matches).toBe(false)
+      expect(legacy.listenerCount()).toBe(1)
+
+      act(() => {
+        legacy.trigger(true)
+      })
+      expect(result.current.matches).toBe(true)
+    })
+
+    it('falls back to addListener when addEventListener throws', () => {
+      const legacy = createLegacyMedia(true, 'throwing')
+      window.matchMedia = vi.fn().mockReturnValue(legacy.media)
+
+      const { result } = renderHook(() => useMediaQuery('(min-width: 600px)'))
+      expect(result.current.matches).toBe(true)
+
+      act(() => {
+        legacy.trigger(false)
+      })
+      expect(result.current.matches).toBe(false)
+    })
+
+    it('removes the legacy listener on unmount', () => {
+      const legacy = createLegacyMedia(false, 'missing')
+      window.matchMedia = vi.fn().mockReturnValue(legacy.media)
+
+      const { unmount } = renderHook(() => useMediaQuery('(min-width: 600px)'))
+      unmount()
+
+      expect(legacy.media.removeListener).toHaveBeenCalledTimes(1)
+      expect(legacy.listenerCount()).toBe(0)
+    })
+  })
 })
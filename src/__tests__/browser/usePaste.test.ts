@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { RefObject } from 'react'
+import { usePaste } from '../../hooks/browser/usePaste'
+
+type FakeClipboardData = {
+  text?: string
+  html?: string
+  files?: File[]
+  // files only exposed through `items`
+  itemFiles?: File[]
+}
+
+// jsdom has no ClipboardEvent or DataTransfer, the event carries a minimal stand-in
+const createPasteEvent = ({
+  text = '',
+  html = '',
+  files = [],
+  itemFiles = [],
+}: FakeClipboardData) => {
+  const event = new Event('paste', { bubbles: true, cancelable: true })
+  const data = {
+    getData: (type: string) => (type === 'text/plain' ? text : type === 'text/html' ? html : ''),
+    files,
+    items: itemFiles.map((file) => ({ kind: 'file', getAsFile: () => file })),
+  }
+  Object.defineProperty(event, 'clipboardData', { value: data })
+  return event
+}
+
+const paste = (target: EventTarget, data: FakeClipboardData) => {
+  const event = createPasteEvent(data)
+  act(() => {
+    target.dispatchEvent(event)
+  })
+  return event
+}
+
+const createFile = (name: string, type: string, size = 10) =>
+  new File(['x'.repeat(size)], name, { type })
+
+describe('usePaste', () => {
+  let editor: HTMLElement
+  let outside: HTMLElement
+
+  beforeEach(() => {
+    editor = document.createElement('div')
+    outside = document.createElement('div')
+    document.body.appendChild(editor)
+    document.body.appendChild(outside)
+  })
+
+  afterEach(() => {
+    document.body.innerHTML = ''
+    vi.restoreAllMocks()
+  })
+
+  it('hands over the pasted text and html of the element', () => {
+    const ref: RefObject<HTMLElement> = { current: editor }
+    const handler = vi.fn()
+    renderHook(() => usePaste(ref, handler))
+
+    const event = paste(editor, { text: 'Hello', html: '<b>Hello</b>' })
+
+    expect(handler).toHaveBeenCalledWith(
+      { text: 'Hello', html: '<b>Hello</b>', files: [], rejected: [] },
+      event,
+    )
+  })
+
+  it('ignores pastes outside the element', () => {
+    const ref: RefObject<HTMLElement> = { current: editor }
+    const handler = vi.fn()
+    renderHook(() => usePaste(ref, handler))
+
+    paste(outside, { text: 'elsewhere' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('listens on the document without a ref', () => {
+    const handler = vi.fn()
+    renderHook(() => usePaste(null, handler))
+
+    paste(outside, { text: 'anywhere' })
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'anywhere' }),
+      expect.any(Event),
+    )
+  })
+
+  it('does not listen while the ref is unattached', () => {
+    const handler = vi.fn()
+    renderHook(() => usePaste({ current: null }, handler))
+
+    paste(editor, { text: 'lost' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('extracts pasted files, also when only exposed as items', () => {
+    const screenshot = createFile('screenshot.png', 'image/png')
+    const handler = vi.fn()
+    renderHook(() => usePaste(null, handler))
+
+    paste(document, { files: [screenshot] })
+    paste(document, { itemFiles: [screenshot] })
+
+    expect(handler.mock.calls[0]?.[0].files).toEqual([screenshot])
+    expect(handler.mock.calls[1]?.[0].files).toEqual([screenshot])
+    expect(handler.mock.calls[1]?.[0].html).toBeNull()
+  })
+
+  it('filters files by MIME type and size', () => {
+    const png = createFile('a.png', 'image/png', 10)
+    const huge = createFile('b.jpg', 'image/jpeg', 2000)
+    const pdf = createFile('c.pdf', 'application/pdf', 10)
+    const handler = vi.fn()
+    renderHook(() => usePaste(null, handler, { accept: ['image/*'], maxSize: 1000 }))
+
+    paste(document, { files: [png, huge, pdf] })
+
+    const [data] = handler.mock.calls[0] ?? []
+    expect(data.files).toEqual([png])
+    expect(data.rejected).toEqual([
+      { file: huge, reason: 'size' },
+      { file: pdf, reason: 'type' },
+    ])
+  })
+
+  it('prevents the default paste when asked to', () => {
+    const handler = vi.fn()
+    const { rerender } = renderHook(
+      ({ preventDefault }) => usePaste(null, handler, { preventDefault }),
+      {
+        initialProps: { preventDefault: false },
+      },
+    )
+
+    expect(paste(document, { text: 'a' }).defaultPrevented).toBe(false)
+    rerender({ preventDefault: true })
+    expect(paste(document, { text: 'a' }).defaultPrevented).toBe(true)
+  })
+
+  it('does nothing while disabled', () => {
+    const handler = vi.fn()
+    const { rerender } = renderHook(({ enabled }) => usePaste(null, handler, { enabled }), {
+      initialProps: { enabled: false },
+    })
+
+    paste(document, { text: 'a' })
+    expect(handler).not.toHaveBeenCalled()
+
+    rerender({ enabled: true })
+    paste(document, { text: 'a' })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('calls the latest handler without re-attaching the listener', () => {
+    const addSpy = vi.spyOn(document, 'addEventListener')
+    const first = vi.fn()
+    const second = vi.fn()
+    const { rerender } = renderHook(({ handler }) => usePaste(null, handler), {
+      initialProps: { handler: first },
+    })
+
+    rerender({ handler: second })
+    paste(document, { text: 'a' })
+
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledTimes(1)
+    expect(addSpy.mock.calls.filter(([type]) => type === 'paste')).toHaveLength(1)
+  })
+
+  it('removes the listener on unmount', () => {
+    const removeSpy = vi.spyOn(editor, 'removeEventListener')
+    const ref: RefObject<HTMLElement> = { current: editor }
+    const { unmount } = renderHook(() => usePaste(ref, vi.fn()))
+
+    unmount()
+    expect(removeSpy).toHaveBeenCalledWith('paste', expect.any(Function), undefined)
+  })
+})
@@ -0,0 +1,167 @@
+import { renderHook, act } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
+import { createElement } from 'react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  usePreferences,
+  preferencesFromClientHints,
+  Preferences,
+} from '../../hooks/browser/usePreferences'
+
+// matchMedia answering from a set of active media features
+const createMatchMedia = (active: string[]) => {
+  const features = new Set(active)
+  const listeners = new Map<string, (event: MediaQueryListEvent) => void>()
+
+  const matchMedia = vi.fn(
+    (query: string) =>
+      ({
+        matches: features.has(query),
+        media: query,
+        onchange: null,
+        addEventListener: (_type: string, cb: (event: MediaQueryListEvent) => void) =>
+          listeners.set(query, cb),
+        removeEventListener: () => listeners.delete(query),
+        addListener: () => {},
+        removeListener: () => {},
+        dispatchEvent: () => false,
+      }) as MediaQueryList,
+  )
+
+  return {
+    matchMedia,
+    toggle: (query: string, matches: boolean) => {
+      if (matches) features.add(query)
+      else features.delete(query)
+      listeners.get(query)?.({ matches, media: query } as MediaQueryListEvent)
+    },
+  }
+}
+
+describe('usePreferences', () => {
+  const originalMatchMedia = window.matchMedia
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    window.matchMedia = originalMatchMedia
+  })
+
+  it('returns every preference as one object', () => {
+    window.matchMedia = createMatchMedia([
+      '(prefers-reduced-motion: reduce)',
+      '(prefers-contrast: more)',
+      '(forced-colors: active)',
+    ]).matchMedia
+
+    const { result } = renderHook(() => usePreferences())
+
+    expect(result.current).toEqual<Preferences>({
+      reducedMotion: true,
+      contrast: 'more',
+      reducedTransparency: false,
+      forcedColors: true,
+      invertedColors: false,
+      reducedData: false,
+    })
+  })
+
+  it('follows preference changes', () => {
+    const media = createMatchMedia([])
+    window.matchMedia = media.matchMedia
+
+    const { result } = renderHook(() => usePreferences())
+    expect(result.current.contrast).toBe('no-preference')
+
+    act(() => media.toggle('(prefers-contrast: less)', true))
+    act(() => media.toggle('(prefers-reduced-transparency: reduce)', true))
+    expect(result.current.contrast).toBe('less')
+    expect(result.current.reducedTransparency).toBe(true)
+
+    act(() => media.toggle('(prefers-contrast: less)', false))
+    expect(result.current.contrast).toBe('no-preference')
+  })
+
+  it('keeps the same object while nothing changes', () => {
+    window.matchMedia = createMatchMedia([]).matchMedia
+
+    const { result, rerender } = renderHook(() => usePreferences())
+    const first = result.current
+    rerender()
+
+    expect(result.current).toBe(first)
+  })
+
+  it('renders with client hint values on the server', () => {
+    vi.stubGlobal('window', undefined)
+    const headers = new Headers({
+      'Sec-CH-Prefers-Reduced-Motion': 'reduce',
+      'Sec-CH-Prefers-Contrast': 'more',
+    })
+
+    const Probe = () => JSON.stringify(usePreferences({ clientHints: headers }))
+    const rendered = JSON.parse(renderToString(createElement(Probe)).replace(/&quot;/g, '"'))
+
+    expect(rendered).toMatchObject({ reducedMotion: true, contrast: 'more', forcedColors: false })
+  })
+
+  it('matches the media features after mount with initializeWithValue false', () => {
+    window.matchMedia = createMatchMedia(['(prefers-reduced-motion: reduce)']).matchMedia
+    const rendered: Preferences[] = []
+
+    const { result } = renderHook(() => {
+      const preferences = usePreferences({ initializeWithValue: false })
+      rendered.push(preferences)
+      return preferences
+    })
+
+    // no hint was sent, so the first render assumes no preference like the server did
+    expect(rendered[0]?.reducedMotion).toBe(false)
+    expect(result.current.reducedMotion).toBe(true)
+  })
+
+  it('falls back to the defaults without matchMedia or hints', () => {
+    window.matchMedia = undefined as unknown as typeof window.matchMedia
+
+    const { result } = renderHook(() =>
+      usePreferences({ defaults: { invertedColors: true, contrast: 'custom' } }),
+    )
+
+    expect(result.current.invertedColors).toBe(true)
+    expect(result.current.contrast).toBe('custom')
+    expect(result.current.reducedMotion).toBe(false)
+  })
+
+  describe('preferencesFromClientHints', () => {
+    it('reads Headers and plain header records case-insensitively', () => {
+      const hints = {
+        'sec-ch-prefers-reduced-motion': 'no-preference',
+        'sec-ch-prefers-reduced-transparency': '"reduce"',
+        'sec-ch-forced-colors': 'active',
+        'sec-ch-prefers-reduced-data': ['reduce'],
+      }
+
+      expect(preferencesFromClientHints(hints)).toEqual({
+        reducedMotion: false,
+        reducedTransparency: true,
+        forcedColors: true,
+        reducedData: true,
+      })
+      expect(
+        preferencesFromClientHints(new Headers({ 'Sec-CH-Prefers-Contrast': 'less' })),
+      ).toEqual({ contrast: 'less' })
+    })
+
+    it('treats Save-Data as a reduced data preference', () => {
+      expect(preferencesFromClientHints({ 'save-data': 'on' })).toEqual({ reducedData: true })
+    })
+
+    it('ignores missing and unknown hint values', () => {
+      expect(
+        preferencesFromClientHints({
+          'sec-ch-prefers-reduced-motion': 'sometimes',
+          'sec-ch-prefers-contrast': 'max',
+        }),
+      ).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { renderHook, act } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { useSessionTimeout } from '../../hooks/browser/useSessionTimeout'
+import { StorageAdapter, createMemoryAdapter } from '../../utils/storage/storage-adapter'
+
+const KEY = 'garuda-hooks:session-deadline'
+// 60s until the warning, 15s more until the expiry
+const timing = { idleTimeout: 60000, warningDuration: 15000 }
+
+describe('useSessionTimeout', () => {
+  let storage: StorageAdapter
+
+  const advance = (ms: number) => {
+    act(() => {
+      vi.advanceTimersByTime(ms)
+    })
+  }
+
+  const moveMouse = () => {
+    act(() => {
+      window.dispatchEvent(new Event('mousemove'))
+    })
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    storage = createMemoryAdapter()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    window.localStorage.clear()
+  })
+
+  it('starts an active session and persists its deadline', () => {
+    const start = Date.now()
+    const { result } = renderHook(() => useSessionTimeout({ ...timing, storage }))
+
+    expect(result.current.status).toBe('active')
+    expect(result.current.deadline).toBe(start + 75000)
+    expect(result.current.countdown).toBe(75)
+    expect(storage.get(KEY)).toBe(String(start + 75000))
+  })
+
+  it('moves through warning to expired and fires the callbacks once', () => {
+    const onWarn = vi.fn()
+    const onTimeout = vi.fn()
+    const { result } = renderHook(() =>
+      useSessionTimeout({ ...timing, storage, onWarn, onTimeout }),
+    )
+
+    advance(59000)
+    expect(result.current.status).toBe('active')
+
+    advance(1000)
+    expect(result.current.status).toBe('warning')
+    expect(result.current.countdown).toBe(15)
+    expect(onWarn).toHaveBeenCalledTimes(1)
+
+    advance(5000)
+    expect(result.current.countdown).toBe(10)
+
+    advance(10000)
+    expect(result.current.status).toBe('expired')
+    expect(result.current.remaining).toBe(0)
+    expect(onWarn).toHaveBeenCalledTimes(1)
+    expect(onTimeout).toHaveBeenCalledTimes(1)
+
+    advance(30000)
+    expect(onTimeout).toHaveBeenCalledTimes(1)
+  })
+
+  it('pushes the deadline back on activity while active', () => {
+    const { result } = renderHook(() => useSessionTimeout({ ...timing, storage }))
+
+    advance(40000)
+    moveMouse()
+    advance(40000)
+
+    expect(result.current.status).toBe('active')
+    expect(result.current.countdown).toBe(35)
+  })
+
+  it('requires extend() to dismiss the warning', () => {
+    const { result } = renderHook(() => useSessionTimeout({ ...timing, storage }))
+
+    advance(62000)
+    moveMouse()
+    expect(result.current.status).toBe('warning')
+
+    act(() => result.current.extend())
+    expect(result.current.status).toBe('active')
+    expect(result.current.countdown).toBe(75)
+  })
+
+  it('does not extend an expired session until it is reset', () => {
+    const { result } = renderHook(() => useSessionTimeout({ ...timing, storage }))
+
+    advance(75000)
+    act(() => result.current.extend())
+    moveMouse()
+    expect(result.current.status).toBe('expired')
+
+    act(() => result.current.reset())
+    expect(result.current.status).toBe('active')
+    expect(result.current.countdown).toBe(75)
+
+    advance(60000)
+    expect(result.current.status).toBe('warning')
+  })
+
+  it('continues the stored countdown after a reload', () => {
+    const first = renderHook(() => useSessionTimeout({ ...timing, storage }))
+    advance(50000)
+    first.unmount()
+
+    advance(5000)
+    const onWarn = vi.fn()
+    const { result } = renderHook(() => useSessionTimeout({ ...timing, storage, onWarn }))
+    expect(result.current.countdown).toBe(20)
+
+    advance(5000)
+    expect(result.current.status).toBe('warning')
+    expect(onWarn).toHaveBeenCalledTimes(1)
+  })
+
+  it('reloads into an expired session and reports the timeout', () => {
+    storage.set(KEY, String(Date.now() - 1000))
+    const onTimeout = vi.fn()
+
+    const { result } = renderHook(() => useSessionTimeout({ ...timing, storage, onTimeout }))
+
+    expect(result.current.status).toBe('expired')
+    expect(onTimeout).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares the deadline through localStorage by default', () => {
+    const { result } = renderHook(() => useSessionTimeout(timing))
+    const other = renderHook(() => useSessionTimeout(timing))
+
+    advance(62000)
+    expect(other.result.current.status).toBe('warning')
+
+    // extending in one tab dismisses the warning in the others
+    act(() => result.current.extend())
+    expect(other.result.current.status).toBe('active')
+    expect(window.localStorage.getItem(KEY)).toBe(String(result.current.deadline))
+  })
+})
@@ -1,6 +1,9 @@
-import { renderHook, act } from '@testing-library/react'
+import { createElement } from 'react'
+import { hydrateRoot } from 'react-dom/client'
+import { renderToString } from 'react-dom/server'
+import { renderHook, act, waitFor } from '@testing-library/react'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { useCookie } from '../../hooks/storage/useCookies'
+import { useCookie, useCookies } from '../../hooks/storage/useCookies'
 
 describe('useCookie', () => {
   const clearCookie = (key: string) => {
@@ -48,6 +51,19 @@ describe('useCookie', () => {
     expect(document.cookie).toContain('token=enc-value')
   })
 
+  it('resolves functional updates from the latest value', () => {
+    const { result } = renderHook(() =>
+      useCookie<number>('count', 0, { encode: String, decode: Number }),
+    )
+
+    act(() => {
+      result.current.setCookie((prev) => (prev ?? 0) + 1)
+      result.current.setCookie((prev) => (prev ?? 0) + 1)
+    })
+    expect(result.current.value).toBe(2)
+    expect(document.cookie).toContain('count=2')
+  })
+
   it('removes cookie and sets value to null', () => {
     document.cookie = 'token=existing'
     const { result } = renderHook(() => useCookie('token', 'init'))
@@ -62,6 +78,21 @@ describe('useCookie', () => {
     expect(document.cookie).not.toContain('token=existing')
   })
 
+  it('keeps hook instances bound to the same cookie in sync', () => {
+    const first = renderHook(() => useCookie<string>('theme', 'light'))
+    const second = renderHook(() => useCookie<string>('theme', 'light'))
+
+    act(() => {
+      first.result.current.setCookie('dark')
+    })
+    expect(second.result.current.value).toBe('dark')
+
+    act(() => {
+      second.result.current.removeCookie()
+    })
+    expect(first.result.current.value).toBeNull()
+  })
+
   it('applies options to cookie string (path/domain/sameSite/secure/maxAge)', () => {
     const cookieSetter = vi.spyOn(document, 'cookie', 'set')
     const options = {
@@ -86,4 +117,318 @@ describe('useCookie', () => {
     expect(setValue).toContain('secure')
     expect(setValue).toContain('max-age=3600')
   })
+
+  it('reads values containing = and encodes special characters', () => {
+    document.cookie = 'query=a%3Db%3Bc'
+    const { result } = renderHook(() => useCookie<string>('query', null))
+    expect(result.current.value).toBe('a=b;c')
+
+    act(() => {
+      result.current.setCookie('x; y')
+    })
+    expect(document.cookie).toContain('query=x%3B%20y')
+    expect(result.current.readCookie()).toBe('x; y')
+  })
+
+  it('prefixes the cookie name with the namespace', () => {
+    document.cookie = 'theme=global'
+    const { result } = renderHook(() => useCookie<string>('theme', null, { namespace: 'checkout' }))
+    expect(result.current.value).toBeNull()
+
+    act(() => {
+      result.current.setCookie('dark')
+    })
+    expect(document.cookie).toContain(`${encodeURIComponent('checkout:theme')}=dark`)
+    expect(document.cookie).toContain('theme=global')
+  })
+
+  it('writes expires, Partitioned and Priority attributes', () => {
+    const cookieSetter = vi.spyOn(document, 'cookie', 'set')
+    const expires = new Date(Date.UTC(2030, 0, 1))
+
+    const { result } = renderHook(() =>
+      useCookie<string>('session', null, {
+        expires,
+        sameSite: 'none',
+        secure: true,
+        partitioned: true,
+        priority: 'high',
+      }),
+    )
+    act(() => {
+      result.current.setCookie('abc')
+    })
+
+    const written = cookieSetter.mock.calls[0]?.[0] as string
+    expect(written).toContain(`expires=${expires.toUTCString()}`)
+    expect(written).toContain('SameSite=none')
+    expect(written).toContain('Partitioned')
+    expect(written).toContain('Priority=high')
+  })
+
+  it('removes the cookie with the attributes it was set with', () => {
+    const cookieSetter = vi.spyOn(document, 'cookie', 'set')
+    const { result } = renderHook(() =>
+      useCookie<string>('token', null, {
+        path: '/app',
+        domain: 'example.com',
+        sameSite: 'strict',
+        secure: true,
+        partitioned: true,
+        maxAge: 3600,
+      }),
+    )
+
+    act(() => {
+      result.current.removeCookie()
+    })
+
+    const written = cookieSetter.mock.calls[0]?.[0] as string
+    expect(written).toContain('token=;')
+    expect(written).toContain('path=/app')
+    expect(written).toContain('domain=example.com')
+    expect(written).toContain('SameSite=strict')
+    expect(written).toContain('secure')
+    expect(written).toContain('Partitioned')
+    expect(written).toContain('max-age=0')
+    expect(written).toContain(`expires=${new Date(0).toUTCString()}`)
+    expect(written).not.toContain('expiresAt')
+  })
+
+  it('throws when SameSite=None is used without secure', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(() => renderHook(() => useCookie<string>('cross', null, { sameSite: 'none' }))).toThrow(
+      'SameSite=None requires secure',
+    )
+  })
+
+  describe('integrity', () => {
+    const integrity = { key: 'app-secret' }
+
+    it('signs the cookie and verifies it on mount', async () => {
+      const { result, unmount } = renderHook(() => useCookie<string>('prefs', null, { integrity }))
+      act(() => {
+        result.current.setCookie('compact')
+      })
+      await waitFor(() => expect(document.cookie).toContain('prefs='))
+
+      // a sibling reads the value already verified in the page
+      const sibling = renderHook(() => useCookie<string>('prefs', null, { integrity }))
+      expect(sibling.result.current.value).toBe('compact')
+
+      // once nothing holds it, the cookie is verified again
+      unmount()
+      sibling.unmount()
+      const { result: next } = renderHook(() => useCookie<string>('prefs', null, { integrity }))
+      expect(next.current.value).toBeNull()
+      await waitFor(() => expect(next.current.value).toBe('compact'))
+    })
+
+    it('treats tampered and unsigned cookies as missing', async () => {
+      document.cookie = 'prefs=compact'
+      const { result } = renderHook(() => useCookie<string>('prefs', 'default', { integrity }))
+      await act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      })
+      expect(result.current.value).toBe('default')
+
+      document.cookie = `prefs=${encodeURIComponent('AAAA.compact')}`
+      const { result: forged } = renderHook(() =>
+        useCookie<string>('prefs', 'default', { integrity }),
+      )
+      await act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      })
+      expect(forged.current.value).toBe('default')
+    })
+
+    it('rejects a signed value copied to another cookie', async () => {
+      const { result } = renderHook(() => useCookie<string>('beta', null, { integrity }))
+      act(() => {
+        result.current.setCookie('true')
+      })
+      await waitFor(() => expect(document.cookie).toContain('beta='))
+      const sealed = document.cookie
+        .split('; ')
+        .find((cookie) => cookie.startsWith('beta='))
+        ?.slice('beta='.length)
+
+      document.cookie = `admin=${sealed}`
+      const { result: copied } = renderHook(() =>
+        useCookie<string>('admin', 'false', { integrity }),
+      )
+      await act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      })
+      expect(copied.current.value).toBe('false')
+    })
+  })
+
+  describe('server rendering', () => {
+    // renders on the "server": no document, like a Next.js server component pass
+    const renderOnServer = (read: () => string | null) => {
+      vi.stubGlobal('document', undefined)
+      try {
+        const Probe = () => createElement('span', null, read())
+        return renderToString(createElement(Probe))
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    }
+
+    it('returns the initial value without ssrCookies', () => {
+      const html = renderOnServer(() => useCookie<string>('token', 'guest').value)
+      expect(html).toBe('<span>guest</span>')
+    })
+
+    it('reads a Cookie header string', () => {
+      const html = renderOnServer(
+        () => useCookie<string>('token', 'guest', { ssrCookies: 'theme=dark; token=abc%3D' }).value,
+      )
+      expect(html).toBe('<span>abc=</span>')
+    })
+
+    it('reads a cookie store such as the output of next/headers cookies()', () => {
+      const ssrCookies = { getAll: () => [{ name: 'checkout:token', value: 'abc' }] }
+      const html = renderOnServer(
+        () => useCookie<string>('token', 'guest', { ssrCookies, namespace: 'checkout' }).value,
+      )
+      expect(html).toBe('<span>abc</span>')
+    })
+
+    it('renders the same value on the server and the client', () => {
+      document.cookie = 'token=abc'
+      const ssrCookies = 'token=abc'
+      const html = renderOnServer(() => useCookie<string>('token', 'guest', { ssrCookies }).value)
+      const { result } = renderHook(() => useCookie<string>('token', 'guest', { ssrCookies }))
+      expect(html).toBe(`<span>${result.current.value}</span>`)
+    })
+
+    it('hydrates without a mismatch when the client cookie differs', async () => {
+      document.cookie = 'token=fresh'
+      const Probe = () =>
+        createElement(
+          'span',
+          null,
+          useCookie<string>('token', 'guest', { ssrCookies: 'token=abc' }).value,
+        )
+
+      const container = document.createElement('div')
+      container.innerHTML = renderOnServer(
+        () => useCookie<string>('token', 'guest', { ssrCookies: 'token=abc' }).value,
+      )
+      expect(container.innerHTML).toBe('<span>abc</span>')
+
+      const onRecoverableError = vi.fn()
+      let root: ReturnType<typeof hydrateRoot> | undefined
+      await act(async () => {
+        root = hydrateRoot(container, createElement(Probe), { onRecoverableError })
+      })
+      expect(onRecoverableError).not.toHaveBeenCalled()
+      expect(container.textContent).toBe('fresh')
+      act(() => root?.unmount())
+    })
+  })
+})
+
+describe('useCookies', () => {
+  type Jar = { theme: 'light' | 'dark'; locale: string; 'a.b+c': string }
+
+  beforeEach(() => {
+    document.cookie.split(';').forEach((cookie) => {
+      const key = cookie.split('=')[0]?.trim()
+      if (key) document.cookie = `${key}=; max-age=0; path=/`
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('parses the whole jar, including values with = and keys with regex characters', () => {
+    document.cookie = 'theme=dark'
+    document.cookie = `${encodeURIComponent('a.b+c')}=${encodeURIComponent('x=1&y=2')}`
+
+    const { result } = renderHook(() => useCookies<Jar>())
+
+    expect(result.current.cookies).toEqual({ theme: 'dark', 'a.b+c': 'x=1&y=2' })
+    expect(result.current.get('theme')).toBe('dark')
+    expect(result.current.get('locale')).toBeUndefined()
+  })
+
+  it('sets and removes cookies and re-reads the jar', () => {
+    const { result } = renderHook(() => useCookies<Jar>())
+
+    act(() => {
+      result.current.set('theme', 'light')
+    })
+    expect(result.current.cookies.theme).toBe('light')
+    expect(document.cookie).toContain('theme=light')
+
+    act(() => {
+      result.current.remove('theme')
+    })
+    expect(result.current.cookies.theme).toBeUndefined()
+    expect(document.cookie).not.toContain('theme=')
+  })
+
+  it('batch updates several cookies, null removes', () => {
+    document.cookie = 'locale=en'
+    const { result } = renderHook(() => useCookies<Jar>())
+
+    act(() => {
+      result.current.update({ theme: 'dark', locale: null })
+    })
+
+    expect(result.current.cookies).toEqual({ theme: 'dark' })
+  })
+
+  it('applies default and per-call attributes', () => {
+    const cookieSetter = vi.spyOn(document, 'cookie', 'set')
+    const { result } = renderHook(() => useCookies<Jar>({ path: '/app', maxAge: 60 }))
+
+    act(() => {
+      result.current.set('locale', 'fr', { maxAge: 120 })
+    })
+
+    const written = cookieSetter.mock.calls[0]?.[0] as string
+    expect(written).toContain('path=/app')
+    expect(written).toContain('max-age=120')
+  })
+
+  it('picks up writes made through useCookie', () => {
+    const { result: jar } = renderHook(() => useCookies<Jar>())
+    const { result: single } = renderHook(() => useCookie<string>('locale', null))
+
+    act(() => {
+      single.current.setCookie('de')
+    })
+    expect(jar.current.cookies.locale).toBe('de')
+  })
+
+  it('only lists cookies of the namespace', () => {
+    document.cookie = 'theme=dark'
+    document.cookie = `${encodeURIComponent('checkout:theme')}=light`
+
+    const { result } = renderHook(() => useCookies<Jar>({ namespace: 'checkout' }))
+    expect(result.current.cookies).toEqual({ theme: 'light' })
+  })
+
+  it('re-reads the jar on Cookie Store API change events', () => {
+    const cookieStore = new EventTarget()
+    vi.stubGlobal('cookieStore', cookieStore)
+
+    const { result } = renderHook(() => useCookies<Jar>())
+    expect(result.current.cookies.theme).toBeUndefined()
+
+    // e.g. a Set-Cookie header from a fetch response
+    document.cookie = 'theme=dark'
+    act(() => {
+      cookieStore.dispatchEvent(
+        Object.assign(new Event('change'), { changed: [{ name: 'theme' }], deleted: [] }),
+      )
+    })
+    expect(result.current.cookies.theme).toBe('dark')
+  })
 })
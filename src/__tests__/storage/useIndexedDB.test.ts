@@ -0,0 +1,322 @@
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import { useIndexedDB } from '../../hooks/storage/useIndexedDB'
+import { idbGet, idbSet } from '../../utils/storage/indexed-db'
+
+type FakeRequest = {
+  result?: unknown
+  error: Error | null
+  onsuccess?: () => void
+  onerror?: () => void
+  onupgradeneeded?: () => void
+}
+
+type FakeTransaction = {
+  error: Error | null
+  oncomplete?: () => void
+  onerror?: () => void
+  onabort?: () => void
+  objectStore: (name: string) => unknown
+}
+
+// minimal in-memory IndexedDB: open/upgrade, get/put/delete and transaction completion
+const createFakeIndexedDB = ({ failWrites = false } = {}) => {
+  const databases = new Map<
+    string,
+    { version: number; stores: Map<string, Map<string, unknown>> }
+  >()
+
+  const createConnection = (name: string) => {
+    const db = databases.get(name)!
+    return {
+      get version() {
+        return db.version
+      },
+      objectStoreNames: { contains: (store: string) => db.stores.has(store) },
+      createObjectStore: (store: string) => db.stores.set(store, new Map()),
+      close: () => {},
+      transaction: (storeName: string) => {
+        const transaction: FakeTransaction = {
+          error: null,
+          objectStore: () => {
+            const records = db.stores.get(storeName)!
+            const run = (operation: () => unknown, isWrite: boolean) => {
+              const request: FakeRequest = { error: null }
+              setTimeout(() => {
+                if (isWrite && failWrites) {
+                  transaction.error = new Error('QuotaExceededError')
+                  transaction.onerror?.()
+                  return
+                }
+                request.result = operation()
+                request.onsuccess?.()
+                transaction.oncomplete?.()
+              }, 0)
+              return request
+            }
+
+            return {
+              get: (key: string) =>
+                run(
+                  () => (records.has(key) ? structuredClone(records.get(key)) : undefined),
+                  false,
+                ),
+              put: (value: unknown, key: string) =>
+                run(() => {
+                  records.set(key, structuredClone(value))
+                  return key
+                }, true),
+              delete: (key: string) => run(() => records.delete(key) && undefined, true),
+            }
+          },
+        }
+        return transaction
+      },
+    }
+  }
+
+  return {
+    open: (name: string, version?: number) => {
+      const request: FakeRequest = { error: null }
+      setTimeout(() => {
+        if (!databases.has(name)) databases.set(name, { version: 0, stores: new Map() })
+        const db = databases.get(name)!
+        const target = version ?? Math.max(db.version, 1)
+        request.result = createConnection(name)
+        if (target > db.version) {
+          db.version = target
+          request.onupgradeneeded?.()
+        }
+        request.onsuccess?.()
+      }, 0)
+      return request
+    },
+  }
+}
+
+describe('useIndexedDB', () => {
+  const originalIndexedDB = window.indexedDB
+  // connections are cached per database, so every test gets its own database
+  let dbName = ''
+  let counter = 0
+
+  beforeEach(() => {
+    counter += 1
+    dbName = `test-db-${counter}`
+    Object.defineProperty(window, 'indexedDB', {
+      value: createFakeIndexedDB(),
+      configurable: true,
+      writable: true,
+    })
+  })
+
+  afterEach(() => {
+    Object.defineProperty(window, 'indexedDB', {
+      value: originalIndexedDB,
+      configurable: true,
+      writable: true,
+    })
+    vi.restoreAllMocks()
+  })
+
+  it('starts loading with the initial value and settles when the key is missing', async () => {
+    const { result } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+
+    expect(result.current.isLoading).toBe(true)
+    expect(result.current.storedValue).toBe('initial')
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.storedValue).toBe('initial')
+    expect(result.current.error).toBeNull()
+  })
+
+  it('persists values and hydrates them in a new hook instance', async () => {
+    const { result } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    await act(async () => {
+      await result.current.setValue('saved')
+    })
+    expect(result.current.storedValue).toBe('saved')
+
+    const { result: next } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+    await waitFor(() => expect(next.current.isLoading).toBe(false))
+    expect(next.current.storedValue).toBe('saved')
+  })
+
+  it('supports functional updates', async () => {
+    const { result } = renderHook(() => useIndexedDB('count', 0, { dbName }))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    await act(async () => {
+      await Promise.all([
+        result.current.setValue((prev) => prev + 1),
+        result.current.setValue((prev) => prev + 1),
+      ])
+    })
+    expect(result.current.storedValue).toBe(2)
+  })
+
+  it('keeps structured-cloneable values such as Date and Map intact', async () => {
+    const { result } = renderHook(() =>
+      useIndexedDB('complex', { at: new Date(0), tags: new Map<string, number>() }, { dbName }),
+    )
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    await act(async () => {
+      await result.current.setValue({
+        at: new Date(Date.UTC(2024, 0, 1)),
+        tags: new Map([['a', 1]]),
+      })
+    })
+
+    const { result: next } = renderHook(() =>
+      useIndexedDB('complex', { at: new Date(0), tags: new Map<string, number>() }, { dbName }),
+    )
+    await waitFor(() => expect(next.current.isLoading).toBe(false))
+    expect(next.current.storedValue.at).toBeInstanceOf(Date)
+    expect(next.current.storedValue.tags.get('a')).toBe(1)
+  })
+
+  it('removeValue deletes the record and resets to the initial value', async () => {
+    const { result } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    await act(async () => {
+      await result.current.setValue('saved')
+    })
+    await act(async () => {
+      await result.current.removeValue()
+    })
+    expect(result.current.storedValue).toBe('initial')
+
+    const { result: next } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+    await waitFor(() => expect(next.current.isLoading).toBe(false))
+    expect(next.current.storedValue).toBe('initial')
+  })
+
+  it('starts over from the initial value when the key changes', async () => {
+    const { result, rerender } = renderHook(({ key }) => useIndexedDB(key, 'initial', { dbName }), {
+      initialProps: { key: 'first' },
+    })
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    await act(async () => {
+      await result.current.setValue('first value')
+    })
+
+    rerender({ key: 'second' })
+    expect(result.current.isLoading).toBe(true)
+    expect(result.current.storedValue).toBe('initial')
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.storedValue).toBe('initial')
+
+    // functional updates start from the new key's value as well
+    await act(async () => {
+      await result.current.setValue((prev) => `${prev} + 1`)
+    })
+    expect(result.current.storedValue).toBe('initial + 1')
+  })
+
+  it('does not let a late hydration overwrite a newer write', async () => {
+    const { result } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+
+    await act(async () => {
+      await result.current.setValue('written-before-hydration')
+    })
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.storedValue).toBe('written-before-hydration')
+  })
+
+  it('exposes write errors on the result', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    Object.defineProperty(window, 'indexedDB', {
+      value: createFakeIndexedDB({ failWrites: true }),
+      configurable: true,
+      writable: true,
+    })
+
+    const { result } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    await act(async () => {
+      await result.current.setValue('too-big')
+    })
+    expect(result.current.error).toBeInstanceOf(Error)
+    expect(result.current.storedValue).toBe('too-big')
+  })
+
+  describe('with a spec compliant IndexedDB', () => {
+    beforeEach(() => {
+      Object.defineProperty(window, 'indexedDB', {
+        value: new IDBFactory(),
+        configurable: true,
+        writable: true,
+      })
+    })
+
+    it('adds a second store to a database that is already open', async () => {
+      await idbSet(dbName, 'drafts', 'a', 'draft')
+      await idbSet(dbName, 'settings', 'b', 'setting')
+
+      // the first store reopens at the new version
+      await expect(idbGet(dbName, 'drafts', 'a')).resolves.toBe('draft')
+      await expect(idbGet(dbName, 'settings', 'b')).resolves.toBe('setting')
+    })
+
+    it('loads hooks bound to different stores of one database', async () => {
+      const drafts = renderHook(() => useIndexedDB('a', 'initial', { dbName, storeName: 'drafts' }))
+      await waitFor(() => expect(drafts.result.current.isLoading).toBe(false))
+      await act(async () => {
+        await drafts.result.current.setValue('draft')
+      })
+
+      const settings = renderHook(() =>
+        useIndexedDB('b', 'initial', { dbName, storeName: 'settings' }),
+      )
+      await waitFor(() => expect(settings.result.current.isLoading).toBe(false))
+      expect(settings.result.current.error).toBeNull()
+
+      await act(async () => {
+        await drafts.result.current.setValue('draft 2')
+      })
+      expect(drafts.result.current.error).toBeNull()
+      await expect(idbGet(dbName, 'drafts', 'a')).resolves.toBe('draft 2')
+    })
+
+    it('reports an error instead of loading forever when the upgrade is blocked', async () => {
+      // a connection from elsewhere (e.g. another tab) that never closes on versionchange
+      const blocker = await new Promise<IDBDatabase>((resolve) => {
+        const request = window.indexedDB.open(dbName)
+        request.onupgradeneeded = () => request.result.createObjectStore('other')
+        request.onsuccess = () => resolve(request.result)
+      })
+
+      const { result } = renderHook(() =>
+        useIndexedDB('a', 'initial', { dbName, storeName: 'drafts' }),
+      )
+      await waitFor(() => expect(result.current.isLoading).toBe(false))
+      expect(result.current.error?.message).toMatch(/blocked/)
+
+      blocker.close()
+    })
+  })
+
+  it('falls back to in-memory state when IndexedDB is unavailable', async () => {
+    Object.defineProperty(window, 'indexedDB', {
+      value: undefined,
+      configurable: true,
+      writable: true,
+    })
+
+    const { result } = renderHook(() => useIndexedDB('draft', 'initial', { dbName }))
+    expect(result.current.isSupported).toBe(false)
+    expect(result.current.isLoading).toBe(false)
+
+    await act(async () => {
+      await result.current.setValue('memory-only')
+    })
+    expect(result.current.storedValue).toBe('memory-only')
+  })
+})
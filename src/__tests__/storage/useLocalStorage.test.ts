@@ -1,7 +1,12 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { renderHook, act } from '@testing-library/react'
+import { createElement } from 'react'
+import { hydrateRoot } from 'react-dom/client'
+import { renderToString } from 'react-dom/server'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
 import { useLocalStorage } from '../../hooks/storage'
 import { STORAGE_ENV } from '../../utils/storage/storage-env'
+import { StorageAdapter, createMemoryAdapter } from '../../utils/storage/storage-adapter'
+import { clearNamespace, exportNamespace, getNamespaceKeys } from '../../utils/storage/namespace'
 
 describe('useLocalStorage', () => {
   const key = 'test-key'
@@ -12,6 +17,10 @@ describe('useLocalStorage', () => {
     vi.restoreAllMocks()
   })
 
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
   it('returns initial value when key is absent', () => {
     const { result } = renderHook(() => useLocalStorage(key, 'initial'))
     expect(result?.current?.storedValue).toBe('initial')
@@ -93,4 +102,633 @@ describe('useLocalStorage', () => {
     expect(result?.current?.searchValue('alpha', STORAGE_ENV.SESSION_STORAGE)).toEqual(['alpha'])
     expect(result?.current?.searchValue('zeta', STORAGE_ENV.SESSION_STORAGE)).toEqual([])
   })
+
+  it('syncs when another tab writes the same key', () => {
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+
+    act(() => {
+      localStorage.setItem(key, JSON.stringify('from-other-tab'))
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key,
+          newValue: JSON.stringify('from-other-tab'),
+          storageArea: localStorage,
+        }),
+      )
+    })
+
+    expect(result.current.storedValue).toBe('from-other-tab')
+  })
+
+  it('ignores storage events for other keys', () => {
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+
+    act(() => {
+      localStorage.setItem('other-key', JSON.stringify('other'))
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'other-key', storageArea: localStorage }),
+      )
+    })
+
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('falls back to initial value when another tab removes or clears the key', () => {
+    localStorage.setItem(key, JSON.stringify('stored'))
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    expect(result.current.storedValue).toBe('stored')
+
+    act(() => {
+      localStorage.removeItem(key)
+      window.dispatchEvent(new StorageEvent('storage', { key, storageArea: localStorage }))
+    })
+    expect(result.current.storedValue).toBe('initial')
+
+    localStorage.setItem(key, JSON.stringify('again'))
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key, storageArea: localStorage }))
+    })
+    expect(result.current.storedValue).toBe('again')
+
+    act(() => {
+      localStorage.clear()
+      window.dispatchEvent(new StorageEvent('storage', { key: null, storageArea: localStorage }))
+    })
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('keeps hook instances bound to the same key in sync within a tab', () => {
+    const first = renderHook(() => useLocalStorage(key, 'initial'))
+    const second = renderHook(() => useLocalStorage(key, 'initial'))
+
+    act(() => {
+      first.result.current.setValue('shared')
+    })
+    expect(second.result.current.storedValue).toBe('shared')
+
+    act(() => {
+      second.result.current.removeValue()
+    })
+    expect(first.result.current.storedValue).toBe('initial')
+  })
+
+  it('keeps instances in sync when the value is changed without a storage event', () => {
+    const first = renderHook(() => useLocalStorage(key, 'initial'))
+    const second = renderHook(() => useLocalStorage(key, 'initial'))
+
+    // written behind the hooks' back, e.g. by a script that does not dispatch events
+    localStorage.setItem(key, JSON.stringify('external'))
+    second.rerender()
+    expect(second.result.current.storedValue).toBe('external')
+
+    act(() => {
+      first.result.current.setValue((prev) => `${prev}!`)
+    })
+    expect(first.result.current.storedValue).toBe('external!')
+    expect(second.result.current.storedValue).toBe('external!')
+  })
+
+  it('hydrates server markup without a mismatch, then shows the stored value', async () => {
+    localStorage.setItem(key, JSON.stringify('stored'))
+    const Probe = () => createElement('span', null, useLocalStorage(key, 'initial').storedValue)
+
+    const container = document.createElement('div')
+    container.innerHTML = renderToString(createElement(Probe))
+    expect(container.innerHTML).toBe('<span>initial</span>')
+
+    const onRecoverableError = vi.fn()
+    let root: ReturnType<typeof hydrateRoot> | undefined
+    await act(async () => {
+      root = hydrateRoot(container, createElement(Probe), { onRecoverableError })
+    })
+    expect(onRecoverableError).not.toHaveBeenCalled()
+    expect(container.textContent).toBe('stored')
+    act(() => root?.unmount())
+  })
+
+  it('stops listening after unmount', () => {
+    const removeSpy = vi.spyOn(window, 'removeEventListener')
+    const { unmount } = renderHook(() => useLocalStorage(key, 'initial'))
+    unmount()
+    expect(removeSpy).toHaveBeenCalledWith('storage', expect.any(Function))
+  })
+
+  it('uses custom serialize/deserialize for values JSON cannot round-trip', () => {
+    const serialize = (value: Date) => value.toISOString()
+    const deserialize = (raw: string) => new Date(raw)
+    localStorage.setItem(key, '2024-01-01T00:00:00.000Z')
+
+    const { result } = renderHook(() =>
+      useLocalStorage(key, new Date(0), { serialize, deserialize }),
+    )
+    expect(result.current.storedValue).toBeInstanceOf(Date)
+    expect(result.current.storedValue.getTime()).toBe(Date.UTC(2024, 0, 1))
+
+    act(() => {
+      result.current.setValue(new Date(Date.UTC(2025, 5, 1)))
+    })
+    expect(localStorage.getItem(key)).toBe('2025-06-01T00:00:00.000Z')
+    expect(result.current.getStoredValue()).toEqual(new Date(Date.UTC(2025, 5, 1)))
+  })
+
+  it('round-trips a Set through a custom serializer', () => {
+    const serialize = (value: Set<string>) => JSON.stringify([...value])
+    const deserialize = (raw: string) => new Set<string>(JSON.parse(raw))
+
+    const { result } = renderHook(() =>
+      useLocalStorage(key, new Set<string>(), { serialize, deserialize }),
+    )
+    act(() => {
+      result.current.setValue((prev) => new Set([...prev, 'a', 'b']))
+    })
+
+    expect(localStorage.getItem(key)).toBe('["a","b"]')
+    const { result: rehydrated } = renderHook(() =>
+      useLocalStorage(key, new Set<string>(), { serialize, deserialize }),
+    )
+    expect(rehydrated.current.storedValue.has('b')).toBe(true)
+  })
+
+  it('falls back to initial value when validate rejects the stored value', () => {
+    const isSettings = (value: unknown): value is { theme: string } =>
+      !!value &&
+      typeof value === 'object' &&
+      typeof (value as { theme: unknown }).theme === 'string'
+    localStorage.setItem(key, JSON.stringify({ colour: 'red' }))
+
+    const { result } = renderHook(() =>
+      useLocalStorage(key, { theme: 'light' }, { validate: isSettings }),
+    )
+    expect(result.current.storedValue).toEqual({ theme: 'light' })
+    expect(result.current.getStoredValue()).toBeUndefined()
+
+    localStorage.setItem(key, JSON.stringify({ theme: 'dark' }))
+    expect(result.current.getStoredValue()).toEqual({ theme: 'dark' })
+  })
+
+  it('falls back to initial value when deserialize throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    localStorage.setItem(key, 'not-json')
+
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('stores the schema version alongside the value when versioning is enabled', () => {
+    const { result } = renderHook(() => useLocalStorage(key, { name: '' }, { version: 2 }))
+    act(() => {
+      result.current.setValue({ name: 'ada' })
+    })
+
+    const payload = JSON.parse(localStorage.getItem(key) as string)
+    expect(payload.version).toBe(2)
+    expect(JSON.parse(payload.value)).toEqual({ name: 'ada' })
+    expect(result.current.getStoredValue()).toEqual({ name: 'ada' })
+  })
+
+  it('migrates unversioned values and persists the upgraded payload', () => {
+    localStorage.setItem(key, JSON.stringify({ fullName: 'Ada Lovelace' }))
+    const migrate = vi.fn((old: unknown) => ({
+      first: (old as { fullName: string }).fullName.split(' ')[0],
+    }))
+
+    const { result } = renderHook(() =>
+      useLocalStorage(key, { first: '' }, { version: 1, migrate }),
+    )
+
+    expect(migrate).toHaveBeenCalledWith({ fullName: 'Ada Lovelace' }, 0)
+    expect(result.current.storedValue).toEqual({ first: 'Ada' })
+    const payload = JSON.parse(localStorage.getItem(key) as string)
+    expect(payload.version).toBe(1)
+    expect(JSON.parse(payload.value)).toEqual({ first: 'Ada' })
+  })
+
+  it('passes the stored version to migrate', () => {
+    localStorage.setItem(key, JSON.stringify({ __garuda: 1, value: JSON.stringify(5), version: 1 }))
+    const migrate = vi.fn((old: unknown, from: number) => (from === 1 ? (old as number) * 10 : 0))
+
+    const { result } = renderHook(() => useLocalStorage(key, 0, { version: 3, migrate }))
+    expect(migrate).toHaveBeenCalledWith(5, 1)
+    expect(result.current.storedValue).toBe(50)
+  })
+
+  it('keeps plain values that look like the wrapper', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const token = { value: 'abc', expiresAt: 123 }
+    const record = { value: 'x', version: 2 }
+    localStorage.setItem(key, JSON.stringify(token))
+    localStorage.setItem(`${key}-2`, JSON.stringify(record))
+
+    const { result } = renderHook(() => useLocalStorage(key, {}))
+    const { result: other } = renderHook(() => useLocalStorage(`${key}-2`, {}))
+
+    expect(result.current.storedValue).toEqual(token)
+    expect(other.current.storedValue).toEqual(record)
+    expect(localStorage.getItem(key)).toBe(JSON.stringify(token))
+    expect(errorSpy).not.toHaveBeenCalled()
+    localStorage.removeItem(`${key}-2`)
+  })
+
+  it('falls back to initial value when an outdated value has no migration', () => {
+    localStorage.setItem(
+      key,
+      JSON.stringify({ __garuda: 1, value: JSON.stringify('old'), version: 1 }),
+    )
+    const { result } = renderHook(() => useLocalStorage(key, 'initial', { version: 2 }))
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('ignores values written by a newer version', () => {
+    localStorage.setItem(
+      key,
+      JSON.stringify({ __garuda: 1, value: JSON.stringify('future'), version: 5 }),
+    )
+    const migrate = vi.fn()
+    const { result } = renderHook(() => useLocalStorage(key, 'initial', { version: 2, migrate }))
+    expect(migrate).not.toHaveBeenCalled()
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('setValueWithTTL stores an expiring payload and resets state when the TTL elapses', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+
+    act(() => {
+      result.current.setValueWithTTL('cached', 500)
+    })
+
+    const payload = JSON.parse(localStorage.getItem(key) as string)
+    expect(payload.expiresAt).toBe(Date.now() + 500)
+    expect(result.current.storedValue).toBe('cached')
+
+    act(() => {
+      vi.advanceTimersByTime(501)
+    })
+    expect(localStorage.getItem(key)).toBeNull()
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('setValueWithTTL falls back to defaultTTL', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const { result } = renderHook(() => useLocalStorage(key, 'initial', { defaultTTL: 1000 }))
+
+    act(() => {
+      result.current.setValueWithTTL('cached')
+    })
+    expect(JSON.parse(localStorage.getItem(key) as string).expiresAt).toBe(Date.now() + 1000)
+  })
+
+  it('setValueWithTTL throws without a ttl', () => {
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    expect(() => result.current.setValueWithTTL('cached')).toThrow()
+  })
+
+  it('discards expired values on hydration', () => {
+    const expired = { __garuda: 1, value: JSON.stringify('old'), expiresAt: Date.now() - 1000 }
+    localStorage.setItem(key, JSON.stringify(expired))
+
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    expect(result.current.storedValue).toBe('initial')
+    expect(localStorage.getItem(key)).toBeNull()
+  })
+
+  it('hydrates non-expired values and schedules their cleanup', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const payload = { __garuda: 1, value: JSON.stringify('fresh'), expiresAt: Date.now() + 1000 }
+    localStorage.setItem(key, JSON.stringify(payload))
+
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    expect(result.current.storedValue).toBe('fresh')
+
+    act(() => {
+      vi.advanceTimersByTime(1001)
+    })
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('getStoredValue returns undefined for expired values', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    act(() => {
+      result.current.setValueWithTTL('cached', 500)
+    })
+
+    vi.setSystemTime(new Date('2024-01-01T00:00:01Z'))
+    expect(result.current.getStoredValue()).toBeUndefined()
+    expect(localStorage.getItem(key)).toBeNull()
+  })
+
+  it('re-checks expiry when the tab becomes visible again', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    act(() => {
+      result.current.setValueWithTTL('cached', 60_000)
+    })
+
+    // the device slept past the expiry without the timer firing
+    vi.setSystemTime(new Date('2024-01-01T01:00:00Z'))
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('visible')
+    act(() => {
+      document.dispatchEvent(new Event('visibilitychange'))
+    })
+
+    expect(result.current.storedValue).toBe('initial')
+    expect(localStorage.getItem(key)).toBeNull()
+  })
+
+  it('setValue after a TTL write stores a plain value again', () => {
+    const { result } = renderHook(() => useLocalStorage(key, 'initial'))
+    act(() => {
+      result.current.setValueWithTTL('cached', 500)
+    })
+    act(() => {
+      result.current.setValue('plain')
+    })
+    expect(localStorage.getItem(key)).toBe(JSON.stringify('plain'))
+  })
+
+  it('persists through a custom storage adapter', () => {
+    const adapter = createMemoryAdapter({ [key]: JSON.stringify('from-memory') })
+    const { result } = renderHook(() => useLocalStorage(key, 'initial', { adapter }))
+    expect(result.current.storedValue).toBe('from-memory')
+
+    act(() => {
+      result.current.setValue('next')
+    })
+    expect(adapter.get(key)).toBe(JSON.stringify('next'))
+    expect(localStorage.getItem(key)).toBeNull()
+
+    act(() => {
+      adapter.set(key, JSON.stringify('external'))
+    })
+    expect(result.current.storedValue).toBe('external')
+
+    act(() => {
+      result.current.removeValue()
+    })
+    expect(adapter.keys()).toEqual([])
+  })
+
+  describe('quota exceeded', () => {
+    // memory adapter that rejects writes once the total stored length passes the limit
+    const createQuotaAdapter = (limit: number): StorageAdapter => {
+      const inner = createMemoryAdapter()
+      const size = () => inner.keys().reduce((total, k) => total + (inner.get(k)?.length ?? 0), 0)
+      return {
+        ...inner,
+        set: (k, value) => {
+          if (size() - (inner.get(k)?.length ?? 0) + value.length > limit) {
+            throw new DOMException('quota exceeded', 'QuotaExceededError')
+          }
+          inner.set(k, value)
+        },
+      }
+    }
+
+    it('exposes a typed error and keeps the in-memory value', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const adapter = createQuotaAdapter(5)
+      const { result } = renderHook(() => useLocalStorage(key, 'initial', { adapter }))
+
+      act(() => {
+        result.current.setValue('far too long for the quota')
+      })
+
+      expect(result.current.storedValue).toBe('far too long for the quota')
+      expect(result.current.error?.name).toBe('StorageError')
+      expect(result.current.error?.type).toBe('quota-exceeded')
+      expect(result.current.error?.key).toBe(key)
+      expect(adapter.get(key)).toBeNull()
+
+      act(() => {
+        result.current.setValue('ok')
+      })
+      expect(result.current.error).toBeNull()
+    })
+
+    it('calls onQuotaExceeded instead of logging', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const onQuotaExceeded = vi.fn()
+      const adapter = createQuotaAdapter(5)
+      const { result } = renderHook(() =>
+        useLocalStorage(key, 'initial', { adapter, onQuotaExceeded }),
+      )
+
+      act(() => {
+        result.current.setValue('far too long for the quota')
+      })
+
+      expect(onQuotaExceeded).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'quota-exceeded', key }),
+      )
+      expect(consoleSpy).not.toHaveBeenCalled()
+    })
+
+    it('calls onError for other failed writes instead of logging', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const onError = vi.fn()
+      const adapter: StorageAdapter = {
+        ...createMemoryAdapter(),
+        set: () => {
+          throw new Error('disk failure')
+        },
+      }
+      const { result } = renderHook(() => useLocalStorage(key, 'initial', { adapter, onError }))
+
+      act(() => {
+        result.current.setValue('next')
+      })
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ type: 'unknown', key }))
+      expect(result.current.storedValue).toBe('next')
+      expect(consoleSpy).not.toHaveBeenCalled()
+    })
+
+    it('evicts the least recently used keys under the prefix', () => {
+      const adapter = createQuotaAdapter(200)
+      const eviction = { prefix: 'cache:' }
+      adapter.set('other', JSON.stringify('not evictable'))
+
+      const { result: first } = renderHook(() =>
+        useLocalStorage('cache:a', '', { adapter, eviction }),
+      )
+      const { result: second } = renderHook(() =>
+        useLocalStorage('cache:b', '', { adapter, eviction }),
+      )
+
+      act(() => {
+        first.current.setValue('a'.repeat(40))
+      })
+      vi.useFakeTimers()
+      vi.advanceTimersByTime(10)
+      act(() => {
+        second.current.setValue('b'.repeat(40))
+      })
+      vi.advanceTimersByTime(10)
+
+      const { result: third } = renderHook(() =>
+        useLocalStorage('cache:c', '', { adapter, eviction }),
+      )
+      act(() => {
+        third.current.setValue('c'.repeat(60))
+      })
+
+      expect(third.current.error).toBeNull()
+      expect(adapter.get('cache:a')).toBeNull()
+      expect(adapter.get('cache:b')).toBe(JSON.stringify('b'.repeat(40)))
+      expect(adapter.get('cache:c')).toBe(JSON.stringify('c'.repeat(60)))
+      expect(adapter.get('other')).toBe(JSON.stringify('not evictable'))
+    })
+  })
+
+  describe('namespace', () => {
+    it('prefixes the key so namespaces do not collide', () => {
+      const { result: checkout } = renderHook(() =>
+        useLocalStorage('theme', 'light', { namespace: 'checkout' }),
+      )
+      const { result: account } = renderHook(() =>
+        useLocalStorage('theme', 'light', { namespace: 'account' }),
+      )
+
+      act(() => {
+        checkout.current.setValue('dark')
+      })
+
+      expect(localStorage.getItem('checkout:theme')).toBe(JSON.stringify('dark'))
+      expect(localStorage.getItem('theme')).toBeNull()
+      expect(account.current.storedValue).toBe('light')
+    })
+
+    it('lists, exports and clears the keys of a namespace', () => {
+      localStorage.setItem('checkout:cart', JSON.stringify(['a']))
+      localStorage.setItem('checkout:step', JSON.stringify(2))
+      localStorage.setItem('account:cart', JSON.stringify(['b']))
+
+      const { result } = renderHook(() => useLocalStorage('cart', [], { namespace: 'checkout' }))
+      expect(result.current.storedValue).toEqual(['a'])
+
+      expect(getNamespaceKeys('checkout').sort()).toEqual(['cart', 'step'])
+      expect(exportNamespace('checkout')).toEqual({
+        cart: JSON.stringify(['a']),
+        step: JSON.stringify(2),
+      })
+
+      act(() => {
+        expect(clearNamespace('checkout').sort()).toEqual(['cart', 'step'])
+      })
+      expect(result.current.storedValue).toEqual([])
+      expect(localStorage.getItem('account:cart')).toBe(JSON.stringify(['b']))
+    })
+  })
+
+  describe('integrity', () => {
+    const integrity = { key: 'app-secret' }
+
+    // sealed writes are asynchronous, wait until the value lands in storage
+    const waitForStored = () => waitFor(() => expect(localStorage.getItem(key)).not.toBeNull())
+
+    it('signs values and verifies them on hydration', async () => {
+      const { result, unmount } = renderHook(() => useLocalStorage(key, 'initial', { integrity }))
+      act(() => {
+        result.current.setValue('signed')
+      })
+      expect(result.current.storedValue).toBe('signed')
+      await waitForStored()
+      expect(localStorage.getItem(key)).toMatch(/^[\w-]+\."signed"$/)
+
+      // a sibling reads the value already verified in the page
+      const sibling = renderHook(() => useLocalStorage(key, 'initial', { integrity }))
+      expect(sibling.result.current.storedValue).toBe('signed')
+
+      // once nothing holds it, the stored value is verified again
+      unmount()
+      sibling.unmount()
+      const { result: next } = renderHook(() => useLocalStorage(key, 'initial', { integrity }))
+      expect(next.current.storedValue).toBe('initial')
+      await waitFor(() => expect(next.current.storedValue).toBe('signed'))
+    })
+
+    it('treats tampered, unsigned and foreign-key values as missing', async () => {
+      const { result } = renderHook(() => useLocalStorage(key, 'initial', { integrity }))
+      act(() => {
+        result.current.setValue('signed')
+      })
+      await waitForStored()
+      const sealed = localStorage.getItem(key) as string
+
+      const expectMissing = async (options = { integrity }) => {
+        const { result: next } = renderHook(() => useLocalStorage(key, 'initial', options))
+        // give the verification time to settle
+        await act(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20))
+        })
+        expect(next.current.storedValue).toBe('initial')
+      }
+
+      localStorage.setItem(key, sealed.replace('"signed"', '"forged"'))
+      await expectMissing()
+
+      localStorage.setItem(key, JSON.stringify('unsigned'))
+      await expectMissing()
+
+      localStorage.setItem(key, sealed)
+      await expectMissing({ integrity: { key: 'other-secret' } })
+    })
+
+    it.each(['sign', 'encrypt'] as const)(
+      'rejects a value %sed under another key or namespace',
+      async (mode) => {
+        const options = { integrity: { key: 'app-secret', mode } }
+        const { result } = renderHook(() => useLocalStorage('flag-a', false, options))
+        act(() => {
+          result.current.setValue(true)
+        })
+        await waitFor(() => expect(localStorage.getItem('flag-a')).not.toBeNull())
+        const sealed = localStorage.getItem('flag-a') as string
+
+        localStorage.setItem('flag-b', sealed)
+        localStorage.setItem('tenant:flag-a', sealed)
+        const other = renderHook(() => useLocalStorage('flag-b', false, options))
+        const namespaced = renderHook(() =>
+          useLocalStorage('flag-a', false, { ...options, namespace: 'tenant' }),
+        )
+        await act(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20))
+        })
+
+        expect(other.result.current.storedValue).toBe(false)
+        expect(namespaced.result.current.storedValue).toBe(false)
+        ;['flag-a', 'flag-b', 'tenant:flag-a'].forEach((name) => localStorage.removeItem(name))
+      },
+    )
+
+    it('encrypts values with AES-GCM', async () => {
+      const options = { integrity: { key: 'app-secret', mode: 'encrypt' as const } }
+      const { result } = renderHook(() => useLocalStorage(key, { email: '' }, options))
+      act(() => {
+        result.current.setValue({ email: 'jane@example.com' })
+      })
+      await waitForStored()
+      expect(localStorage.getItem(key)).not.toContain('jane')
+
+      const { result: next } = renderHook(() => useLocalStorage(key, { email: '' }, options))
+      await waitFor(() => expect(next.current.storedValue).toEqual({ email: 'jane@example.com' }))
+    })
+
+    it('keeps the last of several quick writes', async () => {
+      const { result } = renderHook(() => useLocalStorage(key, 0, { integrity }))
+      act(() => {
+        result.current.setValue(1)
+        result.current.setValue(2)
+        result.current.setValue(3)
+      })
+      await waitFor(() => expect(localStorage.getItem(key)).toMatch(/\.3$/))
+      expect(result.current.storedValue).toBe(3)
+    })
+  })
 })
@@ -0,0 +1,385 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { usePersistentQueue } from '../../hooks/storage/usePersistentQueue'
+import { STORAGE_ENV } from '../../utils/storage/storage-env'
+import {
+  StorageAdapter,
+  createMemoryAdapter,
+  createWebStorageAdapter,
+} from '../../utils/storage/storage-adapter'
+
+describe('usePersistentQueue', () => {
+  const key = 'outbox'
+  let online = true
+
+  const goOffline = () => {
+    online = false
+    act(() => {
+      window.dispatchEvent(new Event('offline'))
+    })
+  }
+
+  const goOnline = async () => {
+    online = true
+    await act(async () => {
+      window.dispatchEvent(new Event('online'))
+    })
+  }
+
+  // lets the pending syncs (and useNetwork's mount update) settle
+  const settle = () => act(async () => {})
+
+  const readStored = () => JSON.parse(localStorage.getItem(key) ?? 'null')
+
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+    online = true
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('queues mutations in localStorage while offline', async () => {
+    online = false
+    const sync = vi.fn().mockResolvedValue(undefined)
+    const { result } = renderHook(() => usePersistentQueue<{ id: number }>(key, sync))
+    await settle()
+
+    act(() => {
+      result.current.enqueue({ id: 1 })
+      result.current.enqueue({ id: 2 })
+    })
+
+    expect(result.current.isOnline).toBe(false)
+    expect(result.current.pending.map((m) => m.payload)).toEqual([{ id: 1 }, { id: 2 }])
+    expect(readStored().pending).toHaveLength(2)
+    expect(sync).not.toHaveBeenCalled()
+  })
+
+  it('flushes the queue in order once connectivity returns', async () => {
+    const sync = vi.fn().mockResolvedValue(undefined)
+    const { result } = renderHook(() => usePersistentQueue<string>(key, sync))
+    goOffline()
+
+    act(() => {
+      result.current.enqueue('first')
+      result.current.enqueue('second')
+    })
+    await goOnline()
+    await settle()
+
+    expect(sync.mock.calls.map(([payload]) => payload)).toEqual(['first', 'second'])
+    expect(result.current.pending).toEqual([])
+    expect(readStored().pending).toEqual([])
+    expect(result.current.isFlushing).toBe(false)
+  })
+
+  it('syncs right away while online', async () => {
+    const sync = vi.fn().mockResolvedValue(undefined)
+    const { result } = renderHook(() => usePersistentQueue<string>(key, sync))
+
+    act(() => {
+      result.current.enqueue('now')
+    })
+    await settle()
+
+    expect(sync).toHaveBeenCalledWith('now', expect.objectContaining({ payload: 'now' }))
+    expect(result.current.pending).toEqual([])
+  })
+
+  it('flushes a queue persisted by a previous visit', async () => {
+    online = false
+    localStorage.setItem(
+      key,
+      JSON.stringify({
+        pending: [{ id: 'a', payload: 'saved', attempts: 0, createdAt: 0 }],
+        deadLetters: [],
+      }),
+    )
+    const sync = vi.fn().mockResolvedValue(undefined)
+    const { result } = renderHook(() => usePersistentQueue<string>(key, sync))
+    expect(result.current.pending).toHaveLength(1)
+
+    await goOnline()
+    await settle()
+    expect(sync).toHaveBeenCalledWith('saved', expect.anything())
+    expect(result.current.pending).toEqual([])
+  })
+
+  it('retries failed syncs with exponential backoff', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const sync = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('500'))
+      .mockRejectedValueOnce(new Error('502'))
+      .mockResolvedValue(undefined)
+    const { result } = renderHook(() => usePersistentQueue<string>(key, sync, { retryDelay: 1000 }))
+
+    act(() => {
+      result.current.enqueue('edit')
+    })
+    await settle()
+    expect(result.current.pending[0]).toMatchObject({
+      attempts: 1,
+      lastError: '500',
+      retryAt: Date.now() + 1000,
+    })
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000)
+    })
+    expect(sync).toHaveBeenCalledTimes(2)
+    expect(result.current.pending[0]).toMatchObject({ attempts: 2, retryAt: Date.now() + 2000 })
+
+    // nothing happens before the doubled delay elapses
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1999)
+    })
+    expect(sync).toHaveBeenCalledTimes(2)
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1)
+    })
+    expect(sync).toHaveBeenCalledTimes(3)
+    expect(result.current.pending).toEqual([])
+  })
+
+  it('moves mutations that keep failing to the dead-letter list', async () => {
+    const onDeadLetter = vi.fn()
+    const sync = vi.fn(async (payload: string) => {
+      if (payload === 'broken') throw new Error('rejected')
+    })
+    const { result } = renderHook(() =>
+      usePersistentQueue<string>(key, sync, { maxAttempts: 2, onDeadLetter }),
+    )
+    goOffline()
+    act(() => {
+      result.current.enqueue('broken')
+      result.current.enqueue('fine')
+    })
+
+    await goOnline()
+    await settle()
+    // the first failure is backing off and blocks the queue, a manual flush retries it
+    expect(result.current.pending.map((m) => m.payload)).toEqual(['broken', 'fine'])
+
+    await act(async () => {
+      await result.current.flush()
+    })
+    expect(result.current.pending).toEqual([])
+    expect(result.current.deadLetters).toEqual([
+      expect.objectContaining({ payload: 'broken', attempts: 2, lastError: 'rejected' }),
+    ])
+    expect(onDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: 'broken' }),
+      expect.any(Error),
+    )
+    expect(sync).toHaveBeenLastCalledWith('fine', expect.anything())
+    expect(readStored().deadLetters).toHaveLength(1)
+  })
+
+  it('retries and clears dead letters', async () => {
+    const sync = vi.fn().mockRejectedValueOnce(new Error('rejected')).mockResolvedValue(undefined)
+    const { result } = renderHook(() => usePersistentQueue<string>(key, sync, { maxAttempts: 1 }))
+
+    act(() => {
+      result.current.enqueue('retry-me')
+    })
+    await settle()
+    expect(result.current.deadLetters).toHaveLength(1)
+
+    act(() => {
+      result.current.retryDeadLetters()
+    })
+    await settle()
+    expect(sync).toHaveBeenCalledTimes(2)
+    expect(result.current.deadLetters).toEqual([])
+    expect(result.current.pending).toEqual([])
+
+    localStorage.setItem(
+      key,
+      JSON.stringify({
+        pending: [],
+        deadLetters: [{ id: 'x', payload: 'old', attempts: 1, createdAt: 0 }],
+      }),
+    )
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key, storageArea: localStorage }))
+    })
+    expect(result.current.deadLetters).toHaveLength(1)
+
+    act(() => {
+      result.current.clearDeadLetters()
+    })
+    expect(result.current.deadLetters).toEqual([])
+  })
+
+  it('does not count a failure caused by losing the connection', async () => {
+    const sync = vi.fn(async () => {
+      online = false
+      throw new TypeError('Failed to fetch')
+    })
+    const { result } = renderHook(() => usePersistentQueue<string>(key, sync))
+
+    act(() => {
+      result.current.enqueue('edit')
+    })
+    await settle()
+
+    expect(result.current.pending[0]).toMatchObject({ attempts: 0 })
+    expect(result.current.pending[0]?.retryAt).toBeUndefined()
+  })
+
+  it('persists to the selected storage', async () => {
+    online = false
+    const { result } = renderHook(() =>
+      usePersistentQueue<string>(key, vi.fn(), {
+        storage: STORAGE_ENV.SESSION_STORAGE,
+        namespace: 'field-app',
+      }),
+    )
+    await settle()
+
+    act(() => {
+      result.current.enqueue('edit')
+    })
+    expect(JSON.parse(sessionStorage.getItem(`field-app:${key}`) as string).pending).toHaveLength(1)
+    expect(localStorage.getItem(key)).toBeNull()
+  })
+
+  describe('when storage rejects writes', () => {
+    const quotaError = () => new DOMException('quota exceeded', 'QuotaExceededError')
+
+    it('syncs mutations queued while storage is unavailable', async () => {
+      online = false
+      const storage = createWebStorageAdapter(() => {
+        throw new DOMException('storage disabled', 'SecurityError')
+      })
+      const sync = vi.fn().mockResolvedValue(undefined)
+      const { result } = renderHook(() => usePersistentQueue<string>(key, sync, { storage }))
+      await settle()
+
+      act(() => {
+        result.current.enqueue('edit')
+      })
+      expect(result.current.pending).toHaveLength(1)
+
+      await goOnline()
+      await settle()
+
+      expect(sync).toHaveBeenCalledWith('edit', expect.objectContaining({ payload: 'edit' }))
+      expect(result.current.pending).toEqual([])
+    })
+
+    it('syncs mutations queued while storage is full', async () => {
+      online = false
+      const memory = createMemoryAdapter()
+      // only writes that grow the stored queue hit the quota
+      const storage: StorageAdapter = {
+        ...memory,
+        set: (name, value) => {
+          if (value.length > (memory.get(name)?.length ?? 0)) throw quotaError()
+          memory.set(name, value)
+        },
+      }
+      const sync = vi.fn().mockResolvedValue(undefined)
+      const { result } = renderHook(() => usePersistentQueue<string>(key, sync, { storage }))
+      await settle()
+
+      act(() => {
+        result.current.enqueue('edit')
+      })
+      expect(result.current.error?.type).toBe('quota-exceeded')
+
+      await goOnline()
+      await settle()
+
+      expect(sync).toHaveBeenCalledTimes(1)
+      expect(result.current.pending).toEqual([])
+    })
+
+    it('does not sync a mutation again when its removal is not stored', async () => {
+      const mutation = (id: string) => ({ id, payload: id, attempts: 0, createdAt: 0 })
+      const memory = createMemoryAdapter({
+        [key]: JSON.stringify({ pending: [mutation('a'), mutation('b')], deadLetters: [] }),
+      })
+      const storage: StorageAdapter = {
+        ...memory,
+        set: () => {
+          throw quotaError()
+        },
+      }
+      const sync = vi.fn().mockImplementation(async () => {
+        // guards against syncing the same mutation forever
+        if (sync.mock.calls.length >= 5) online = false
+      })
+
+      const { result } = renderHook(() => usePersistentQueue<string>(key, sync, { storage }))
+      await settle()
+
+      // every mutation is synced once, a removal that was not stored does not sync it again
+      expect(sync.mock.calls.map(([payload]) => payload)).toEqual(['a', 'b'])
+      expect(result.current.pending).toEqual([])
+      expect(result.current.error?.type).toBe('quota-exceeded')
+    })
+  })
+
+  describe('across tabs', () => {
+    // queues the callbacks of each lock name, like the browser does for every tab of the origin
+    const createLockManager = () => {
+      const queues = new Map<string, Promise<unknown>>()
+      return {
+        request: (name: string, callback: () => Promise<unknown>) => {
+          const run = (queues.get(name) ?? Promise.resolve()).then(callback)
+          queues.set(
+            name,
+            run.catch(() => {}),
+          )
+          return run
+        },
+      }
+    }
+
+    afterEach(() => {
+      Reflect.deleteProperty(navigator, 'locks')
+    })
+
+    it.each(['storage lease', 'Web Locks'])(
+      'syncs every mutation once with two tabs online (%s)',
+      async (lock) => {
+        if (lock === 'Web Locks') {
+          Object.defineProperty(navigator, 'locks', {
+            value: createLockManager(),
+            configurable: true,
+          })
+        }
+        const mutation = (id: string) => ({ id, payload: id, attempts: 0, createdAt: 0 })
+        localStorage.setItem(
+          key,
+          JSON.stringify({ pending: [mutation('a'), mutation('b')], deadLetters: [] }),
+        )
+        const sync = vi.fn<(payload: string) => Promise<void>>(
+          () => new Promise((resolve) => setTimeout(resolve, 20)),
+        )
+
+        // each tab has its own adapter over the shared localStorage
+        const tabs = [0, 1].map(() => {
+          const storage = createWebStorageAdapter(() => localStorage)
+          return renderHook(() => usePersistentQueue<string>(key, sync, { storage }))
+        })
+
+        await waitFor(() => expect(readStored().pending).toEqual([]))
+        await waitFor(() =>
+          tabs.forEach((tab) => expect(tab.result.current.isFlushing).toBe(false)),
+        )
+
+        expect(sync.mock.calls.map(([payload]) => payload)).toEqual(['a', 'b'])
+      },
+    )
+  })
+})
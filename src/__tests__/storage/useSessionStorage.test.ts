@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
 import { useSessionStorage } from '../../hooks'
+import { createMemoryAdapter } from '../../utils/storage/storage-adapter'
 
 describe('useSessionStorage', () => {
   const key = 'session-key'
@@ -32,7 +33,9 @@ describe('useSessionStorage', () => {
     const { result } = renderHook(() => useSessionStorage(key, 'initial'))
     expect(result.current.storedValue).toBe('persisted')
 
-    vi.advanceTimersByTime(1001)
+    act(() => {
+      vi.advanceTimersByTime(1001)
+    })
     expect(sessionStorage.getItem(key)).toBeNull()
   })
 
@@ -107,10 +110,24 @@ describe('useSessionStorage', () => {
     expect(parsed.value).toBe('custom')
     expect(parsed.expiresAt).toBe(Date.now() + 500)
 
-    vi.advanceTimersByTime(501)
+    act(() => {
+      vi.advanceTimersByTime(501)
+    })
     expect(sessionStorage.getItem(key)).toBeNull()
   })
 
+  it('setValueWithTTL resolves functional updates against the latest value', () => {
+    const { result } = renderHook(() => useSessionStorage<number>(key, 1))
+
+    act(() => {
+      result.current.setValueWithTTL((prev) => prev + 1, 1000)
+      result.current.setValueWithTTL((prev) => prev * 10, 1000)
+    })
+
+    expect(result.current.storedValue).toBe(20)
+    expect(JSON.parse(sessionStorage.getItem(key) as string).value).toBe(20)
+  })
+
   it('is tolerant when storage access fails (SSR-ish)', () => {
     // if storage is unavailable, hook should fall back to initial and not throw
     const getItemSpy = vi.spyOn(window.sessionStorage, 'getItem').mockImplementation(() => {
@@ -128,4 +145,267 @@ describe('useSessionStorage', () => {
     const { result } = renderHook(() => useSessionStorage(key, 'initial'))
     expect(result?.current?.storedValue).toBe('stored')
   })
+
+  it('stores the schema version in the payload', () => {
+    const { result } = renderHook(() => useSessionStorage(key, 'initial', { version: 2 }))
+
+    act(() => {
+      result.current.setValue('next')
+    })
+
+    const parsed = JSON.parse(sessionStorage.getItem(key) as string)
+    expect(parsed).toEqual({ __garuda: 1, value: 'next', expiresAt: null, version: 2 })
+  })
+
+  it('migrates older payloads on read and keeps their expiry', () => {
+    const expiresAt = Date.now() + 60_000
+    sessionStorage.setItem(key, JSON.stringify({ value: { step: 2 }, expiresAt, version: 1 }))
+    const migrate = vi.fn((old: unknown) => ({ currentStep: (old as { step: number }).step }))
+
+    const { result } = renderHook(() =>
+      useSessionStorage(key, { currentStep: 0 }, { version: 2, migrate }),
+    )
+
+    expect(migrate).toHaveBeenCalledWith({ step: 2 }, 1)
+    expect(result.current.storedValue).toEqual({ currentStep: 2 })
+    const parsed = JSON.parse(sessionStorage.getItem(key) as string)
+    expect(parsed).toEqual({ __garuda: 1, value: { currentStep: 2 }, expiresAt, version: 2 })
+  })
+
+  it('treats payloads without a version as version 0', () => {
+    sessionStorage.setItem(key, JSON.stringify({ value: 'legacy', expiresAt: null }))
+    const migrate = vi.fn((old: unknown) => `${old}-migrated`)
+
+    const { result } = renderHook(() => useSessionStorage(key, 'initial', { version: 1, migrate }))
+    expect(migrate).toHaveBeenCalledWith('legacy', 0)
+    expect(result.current.storedValue).toBe('legacy-migrated')
+    expect(result.current.getStoredValue()).toBe('legacy-migrated')
+  })
+
+  it('reads plain objects that are not wrappers as values', () => {
+    sessionStorage.setItem(key, JSON.stringify({ value: 'abc', source: 'sso' }))
+
+    const { result } = renderHook(() => useSessionStorage(key, {}))
+    expect(result.current.storedValue).toEqual({ value: 'abc', source: 'sso' })
+  })
+
+  it('falls back to initial value when no migration is provided', () => {
+    sessionStorage.setItem(key, JSON.stringify({ value: 'old', expiresAt: null, version: 1 }))
+    const { result } = renderHook(() => useSessionStorage(key, 'initial', { version: 2 }))
+    expect(result.current.storedValue).toBe('initial')
+    expect(result.current.getStoredValue()).toBeUndefined()
+  })
+
+  it('persists through a custom storage adapter', () => {
+    const adapter = createMemoryAdapter()
+    const { result } = renderHook(() => useSessionStorage(key, 'initial', { adapter }))
+
+    act(() => {
+      result.current.setValue('next')
+    })
+    expect(JSON.parse(adapter.get(key) as string)).toEqual({
+      __garuda: 1,
+      value: 'next',
+      expiresAt: null,
+    })
+    expect(sessionStorage.getItem(key)).toBeNull()
+
+    act(() => {
+      result.current.removeValue()
+    })
+    expect(adapter.get(key)).toBeNull()
+    expect(result.current.storedValue).toBe('initial')
+  })
+
+  it('exposes quota errors on the result instead of throwing', () => {
+    const onQuotaExceeded = vi.fn()
+    const setItemSpy = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('quota exceeded', 'QuotaExceededError')
+    })
+    const { result } = renderHook(() => useSessionStorage(key, 'initial', { onQuotaExceeded }))
+
+    act(() => {
+      result.current.setValueWithTTL('big', 500)
+    })
+
+    expect(result.current.storedValue).toBe('big')
+    expect(result.current.error?.type).toBe('quota-exceeded')
+    expect(onQuotaExceeded).toHaveBeenCalledTimes(1)
+
+    setItemSpy.mockRestore()
+    act(() => {
+      result.current.setValue('small')
+    })
+    expect(result.current.error).toBeNull()
+  })
+
+  it('stores the value under the namespace', () => {
+    const { result } = renderHook(() =>
+      useSessionStorage(key, 'initial', { namespace: 'checkout' }),
+    )
+
+    act(() => {
+      result.current.setValue('next')
+    })
+    expect(JSON.parse(sessionStorage.getItem(`checkout:${key}`) as string).value).toBe('next')
+    expect(sessionStorage.getItem(key)).toBeNull()
+  })
+
+  describe('expiry', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    })
+
+    it('resets the state to initialValue and calls onExpire when the ttl elapses', () => {
+      const onExpire = vi.fn()
+      const { result } = renderHook(() => useSessionStorage<string>(key, 'initial', { onExpire }))
+
+      act(() => {
+        result.current.setValueWithTTL('wizard-step-2', 1000)
+      })
+      expect(result.current.storedValue).toBe('wizard-step-2')
+
+      act(() => {
+        vi.advanceTimersByTime(1001)
+      })
+      expect(result.current.storedValue).toBe('initial')
+      expect(sessionStorage.getItem(key)).toBeNull()
+      expect(onExpire).toHaveBeenCalledWith('wizard-step-2')
+    })
+
+    it('calls onExpire once for an entry that expired before a reload', () => {
+      const onExpire = vi.fn()
+      const payload = { __garuda: 1, value: 'wizard-step-3', expiresAt: Date.now() - 1000 }
+      sessionStorage.setItem(key, JSON.stringify(payload))
+
+      const { result, rerender } = renderHook(() =>
+        useSessionStorage<string>(key, 'initial', { onExpire: (value) => onExpire(value) }),
+      )
+      rerender()
+
+      expect(result.current.storedValue).toBe('initial')
+      expect(sessionStorage.getItem(key)).toBeNull()
+      expect(onExpire).toHaveBeenCalledTimes(1)
+      expect(onExpire).toHaveBeenCalledWith('wizard-step-3')
+    })
+
+    it('resets hydrated values once their stored expiry passes', () => {
+      sessionStorage.setItem(key, JSON.stringify({ value: 'stored', expiresAt: Date.now() + 500 }))
+      const { result } = renderHook(() => useSessionStorage<string>(key, 'initial'))
+      expect(result.current.storedValue).toBe('stored')
+
+      act(() => {
+        vi.advanceTimersByTime(501)
+      })
+      expect(result.current.storedValue).toBe('initial')
+    })
+
+    it('setValue drops the expiry outside of sliding mode', () => {
+      const onExpire = vi.fn()
+      const { result } = renderHook(() => useSessionStorage<string>(key, 'initial', { onExpire }))
+
+      act(() => {
+        result.current.setValueWithTTL('cached', 500)
+      })
+      act(() => {
+        result.current.setValue('kept')
+      })
+      act(() => {
+        vi.advanceTimersByTime(1000)
+      })
+      expect(result.current.storedValue).toBe('kept')
+      expect(onExpire).not.toHaveBeenCalled()
+    })
+
+    it('sliding mode extends the expiry on every write', () => {
+      const onExpire = vi.fn()
+      const { result } = renderHook(() =>
+        useSessionStorage<string>(key, 'initial', { sliding: true, onExpire }),
+      )
+
+      act(() => {
+        result.current.setValueWithTTL('step-1', 1000)
+      })
+      act(() => {
+        vi.advanceTimersByTime(600)
+        result.current.setValue('step-2')
+      })
+      const parsed = JSON.parse(sessionStorage.getItem(key) as string)
+      expect(parsed).toEqual({
+        __garuda: 1,
+        value: 'step-2',
+        expiresAt: Date.now() + 1000,
+        ttl: 1000,
+      })
+
+      act(() => {
+        vi.advanceTimersByTime(600)
+      })
+      expect(result.current.storedValue).toBe('step-2')
+
+      act(() => {
+        vi.advanceTimersByTime(401)
+      })
+      expect(result.current.storedValue).toBe('initial')
+      expect(onExpire).toHaveBeenCalledWith('step-2')
+    })
+
+    it('sliding mode extends the expiry on reads, including hydration', () => {
+      sessionStorage.setItem(
+        key,
+        JSON.stringify({ value: 'stored', expiresAt: Date.now() + 200, ttl: 1000 }),
+      )
+      const { result } = renderHook(() =>
+        useSessionStorage<string>(key, 'initial', { sliding: true }),
+      )
+      expect(JSON.parse(sessionStorage.getItem(key) as string).expiresAt).toBe(Date.now() + 1000)
+
+      act(() => {
+        vi.advanceTimersByTime(900)
+      })
+      act(() => {
+        expect(result.current.getStoredValue()).toBe('stored')
+      })
+
+      act(() => {
+        vi.advanceTimersByTime(900)
+      })
+      expect(result.current.storedValue).toBe('stored')
+
+      act(() => {
+        vi.advanceTimersByTime(101)
+      })
+      expect(result.current.storedValue).toBe('initial')
+    })
+
+    it('sliding mode does not answer writes from another document', () => {
+      const { result } = renderHook(() =>
+        useSessionStorage<string>(key, 'initial', { sliding: true, defaultTTL: 1000 }),
+      )
+      act(() => {
+        result.current.setValueWithTTL('mine')
+      })
+
+      // e.g. a same-origin iframe sliding the shared entry
+      const external = JSON.stringify({
+        __garuda: 1,
+        value: 'theirs',
+        expiresAt: Date.now() + 1000,
+        ttl: 1000,
+      })
+      const setItem = vi.spyOn(Storage.prototype, 'setItem')
+      sessionStorage.setItem(key, external)
+      setItem.mockClear()
+      act(() => {
+        window.dispatchEvent(
+          new StorageEvent('storage', { key, newValue: external, storageArea: sessionStorage }),
+        )
+      })
+
+      expect(result.current.storedValue).toBe('theirs')
+      expect(setItem).not.toHaveBeenCalled()
+      expect(sessionStorage.getItem(key)).toBe(external)
+    })
+  })
 })
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useStorageState, StorageStateBackend } from '../../hooks/storage/useStorageState'
+
+describe('useStorageState', () => {
+  const key = 'setting'
+
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+    document.cookie.split(';').forEach((cookie) => {
+      const name = cookie.split('=')[0]?.trim()
+      if (name) document.cookie = `${name}=; max-age=0; path=/`
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const readBackend = (storage: StorageStateBackend) => {
+    if (storage === 'local') return localStorage.getItem(key)
+    if (storage === 'session') return sessionStorage.getItem(key)
+    if (storage === 'cookie') {
+      const match = document.cookie.split('; ').find((c) => c.startsWith(`${key}=`))
+      return match ? decodeURIComponent(match.slice(key.length + 1)) : null
+    }
+    return null
+  }
+
+  it.each<StorageStateBackend>(['local', 'session', 'cookie', 'memory'])(
+    'has the same return shape and behaviour with %s storage',
+    (storage) => {
+      const { result } = renderHook(() => useStorageState(key, { count: 0 }, { storage }))
+      expect(result.current.storedValue).toEqual({ count: 0 })
+      expect(result.current.error).toBeNull()
+
+      act(() => {
+        result.current.setValue({ count: 1 })
+      })
+      act(() => {
+        result.current.setValue((prev) => ({ count: prev.count + 1 }))
+      })
+      expect(result.current.storedValue).toEqual({ count: 2 })
+      if (storage !== 'memory') expect(readBackend(storage)).toBe(JSON.stringify({ count: 2 }))
+
+      act(() => {
+        result.current.removeValue()
+      })
+      expect(result.current.storedValue).toEqual({ count: 0 })
+      if (storage !== 'memory') expect(readBackend(storage)).toBeNull()
+    },
+  )
+
+  it.each<StorageStateBackend>(['local', 'session', 'cookie', 'memory'])(
+    'chains functional updates made in one tick with %s storage',
+    (storage) => {
+      const { result } = renderHook(() => useStorageState(key, 0, { storage }))
+
+      act(() => {
+        result.current.setValue((prev) => prev + 1)
+        result.current.setValue((prev) => prev + 1)
+      })
+      expect(result.current.storedValue).toBe(2)
+    },
+  )
+
+  it('only validates cookie attributes for the cookie backend', () => {
+    const cookie = { sameSite: 'none' as const }
+
+    const { result } = renderHook(() => useStorageState(key, 'a', { storage: 'local', cookie }))
+    expect(result.current.storedValue).toBe('a')
+
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(() =>
+      renderHook(() => useStorageState(key, 'a', { storage: 'cookie', cookie })),
+    ).toThrow(/SameSite=None/)
+  })
+
+  it('only writes to the selected storage', () => {
+    const { result } = renderHook(() => useStorageState(key, 'a', { storage: 'session' }))
+
+    act(() => {
+      result.current.setValue('b')
+    })
+    expect(sessionStorage.getItem(key)).toBe(JSON.stringify('b'))
+    expect(localStorage.getItem(key)).toBeNull()
+    expect(readBackend('cookie')).toBeNull()
+  })
+
+  it('switches storage with a single option', () => {
+    localStorage.setItem(key, JSON.stringify('from-local'))
+    document.cookie = `${key}=${encodeURIComponent(JSON.stringify('from-cookie'))}`
+
+    const { result, rerender } = renderHook(
+      ({ storage }: { storage: StorageStateBackend }) =>
+        useStorageState(key, 'initial', { storage }),
+      { initialProps: { storage: 'local' } },
+    )
+    expect(result.current.storedValue).toBe('from-local')
+
+    rerender({ storage: 'cookie' })
+    expect(result.current.storedValue).toBe('from-cookie')
+  })
+
+  it('re-reads the value when switching between web storages', () => {
+    localStorage.setItem(key, JSON.stringify('from-local'))
+    sessionStorage.setItem(key, JSON.stringify('from-session'))
+
+    const { result, rerender } = renderHook(
+      ({ storage }: { storage: StorageStateBackend }) =>
+        useStorageState(key, 'initial', { storage }),
+      { initialProps: { storage: 'local' } },
+    )
+    expect(result.current.storedValue).toBe('from-local')
+
+    rerender({ storage: 'session' })
+    expect(result.current.storedValue).toBe('from-session')
+  })
+
+  it('shares memory storage between hook instances', () => {
+    const { result: first } = renderHook(() =>
+      useStorageState('memory-key', 0, { storage: 'memory' }),
+    )
+    const { result: second } = renderHook(() =>
+      useStorageState('memory-key', 0, { storage: 'memory' }),
+    )
+
+    act(() => {
+      first.current.setValue(5)
+    })
+    expect(second.current.storedValue).toBe(5)
+    expect(localStorage.getItem('memory-key')).toBeNull()
+  })
+
+  it('applies namespace and cookie attributes', () => {
+    const cookieSetter = vi.spyOn(document, 'cookie', 'set')
+    const { result } = renderHook(() =>
+      useStorageState(key, 'light', {
+        storage: 'cookie',
+        namespace: 'checkout',
+        cookie: { path: '/checkout', maxAge: 60 },
+      }),
+    )
+
+    act(() => {
+      result.current.setValue('dark')
+    })
+
+    const written = cookieSetter.mock.calls[0]?.[0] as string
+    expect(written).toContain(`${encodeURIComponent('checkout:setting')}=`)
+    expect(written).toContain('path=/checkout')
+    expect(written).toContain('max-age=60')
+  })
+})
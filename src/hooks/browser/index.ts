@@ -1,8 +1,12 @@
 export * from './useMediaQuery'
+export * from './useBreakpoint'
+export * from './usePreferences'
 export * from './useClipboard'
+export * from './usePaste'
 export * from './useFullscreen'
 export * from './useGeolocation'
 export * from './useIdle'
+export * from './useSessionTimeout'
 export * from './useNetwork'
 export * from './useColorScheme'
 export * from './useOrientation'
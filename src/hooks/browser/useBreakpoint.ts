@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { readMediaQuery, subscribeMediaQuery } from '../../utils/media/media-query'
+import { MediaQueryOptions } from './useMediaQuery'
+
+/**
+ *
+ * Watches a map of named media queries and tells which of them match
+ */
+
+type BreakpointOptions<K extends string> = Omit<MediaQueryOptions, 'defaultMatch'> & {
+  // one default for every query, or per key
+  defaultMatch?: boolean | Partial<Record<K, boolean>>
+}
+
+interface UseBreakpointReturn<K extends string> {
+  // last matching key in declaration order, null when none matches
+  active: K | null
+  matches: Record<K, boolean>
+}
+
+export function useBreakpoint<K extends string>(
+  queries: Record<K, string>,
+  options: BreakpointOptions<K> = {},
+): UseBreakpointReturn<K> {
+  const isSSR = typeof window === 'undefined'
+  const { defaultMatch, ssrMatchMedia, initializeWithValue = true } = options
+
+  // inline maps are compared by content, so they do not resubscribe every render
+  const queryKey = JSON.stringify(queries)
+  const entries = useMemo(() => Object.entries(JSON.parse(queryKey)) as [K, string][], [queryKey])
+
+  const getDefault = useCallback(
+    (key: K) => (typeof defaultMatch === 'object' ? defaultMatch[key] : defaultMatch) ?? false,
+    [defaultMatch],
+  )
+
+  const getMatches = useCallback(
+    (useValue: boolean) => {
+      const next = {} as Record<K, boolean>
+      entries.forEach(([key, query]) => {
+        const match = useValue && !isSSR ? readMediaQuery(query) : undefined
+        if (match !== undefined) next[key] = match
+        else if (useValue && ssrMatchMedia) next[key] = ssrMatchMedia(query).matches
+        else next[key] = getDefault(key)
+      })
+      return next
+    },
+    [entries, isSSR, ssrMatchMedia, getDefault],
+  )
+
+  const [state, setState] = useState(() => ({
+    queryKey,
+    matches: getMatches(initializeWithValue),
+  }))
+
+  // a different map starts from its own values instead of the previous keys
+  if (state.queryKey !== queryKey) {
+    setState({ queryKey, matches: getMatches(initializeWithValue) })
+  }
+
+  useEffect(() => {
+    if (isSSR) return
+
+    // each query shares its listener with every other hook watching it
+    const unsubscribers = entries.map(([key, query]) =>
+      subscribeMediaQuery(query, (match) =>
+        setState((prev) =>
+          prev.queryKey !== queryKey || prev.matches[key] === match
+            ? prev
+            : { queryKey, matches: { ...prev.matches, [key]: match } },
+        ),
+      ),
+    )
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [entries, queryKey, isSSR])
+
+  const { matches } = state
+  const active = useMemo(
+    () => entries.reduce<K | null>((current, [key]) => (matches[key] ? key : current), null),
+    [entries, matches],
+  )
+
+  return { active, matches }
+}
@@ -1,49 +1,350 @@
-import { useState, useRef, useCallback, RefObject } from 'react'
+import { useState, useRef, useCallback, useEffect, RefObject, SyntheticEvent } from 'react'
 
 /**
  *
- * Observe the inner html where dthis was used
+ * Copies to the clipboard: an explicit string, the text of a referenced element, rich HTML or a
+ * canvas image, and reads it back once the browser allows it
  */
 
+type PermissionStateExtended = PermissionState | 'unavailable'
+
+// `exec-command` is the hidden textarea fallback for non-secure contexts and older webviews
+export type ClipboardStrategy = 'clipboard-api' | 'exec-command'
+
+interface UseClipboardOptions {
+  // ms before `copied` goes back to false, 0 keeps it until the next copy
+  timeout?: number
+  // copies through `document.execCommand('copy')` when the Clipboard API is missing or rejects
+  fallback?: boolean
+  // the copied text, html string or PNG blob
+  onCopy?: (content: string | Blob, strategy: ClipboardStrategy) => void
+  onError?: (error: Error) => void
+}
+
 interface UseClipboardReturn {
   ref: RefObject<HTMLElement | null>
   copied: boolean
-  copy: () => Promise<boolean>
+  // how the last successful copy was written
+  strategy: ClipboardStrategy | null
+  // last failed clipboard operation, cleared by the next successful one
+  error: Error | null
+  // copies `text`, or the text of `ref` when no string is given (e.g. `onClick={copy}`)
+  copy: (text?: string | SyntheticEvent) => Promise<boolean>
+  copyFrom: (ref: RefObject<HTMLElement | null>) => Promise<boolean>
+  // copies `text/html` with a `text/plain` fallback, derived from the html when omitted
+  copyHtml: (html: string, plainText?: string) => Promise<boolean>
+  // copies the canvas as `image/png`
+  copyImage: (canvas: HTMLCanvasElement) => Promise<boolean>
+  // clipboard contents, null when reading is not possible
+  read: () => Promise<ClipboardItems | null>
+  readText: () => Promise<string | null>
+  // state of the `clipboard-read` permission, `unavailable` when it cannot be queried
+  readPermission: PermissionStateExtended
+  reset: () => void
+}
+
+const DEFAULT_TIMEOUT = 3000
+
+const readElementText = (element: HTMLElement) => element.innerText ?? element.textContent ?? ''
+
+// parsed in an inert document, so nothing in the html is loaded or run
+const htmlToText = (html: string) =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent ?? ''
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob)
+      else reject(new Error('Canvas could not be encoded as PNG'))
+    }, 'image/png')
+  })
+
+// the selection and focus the user had, the fallback has to move both to copy
+const saveSelection = () => {
+  const active = document.activeElement
+  const selection = document.getSelection()
+  const ranges = selection
+    ? Array.from({ length: selection.rangeCount }, (_, index) =>
+        selection.getRangeAt(index).cloneRange(),
+      )
+    : []
+  const field =
+    active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement ? active : null
+  const fieldRange = field
+    ? { start: field.selectionStart, end: field.selectionEnd, direction: field.selectionDirection }
+    : null
+
+  return () => {
+    selection?.removeAllRanges()
+    ranges.forEach((range) => selection?.addRange(range))
+    if (active instanceof HTMLElement) active.focus({ preventScroll: true })
+    // focusing an input selects nothing, its own selection is restored separately
+    if (field && fieldRange) {
+      try {
+        field.setSelectionRange(fieldRange.start, fieldRange.end, fieldRange.direction ?? undefined)
+      } catch {
+        // inputs like `email` do not support selection ranges
+      }
+    }
+  }
 }
 
-export function useClipboard(): UseClipboardReturn {
-  const isSSR = !window || typeof window === 'undefined'
+const copyWithExecCommand = (text: string) => {
+  if (typeof document === 'undefined' || typeof document.execCommand !== 'function') return null
+
+  const restoreSelection = saveSelection()
+  const textarea = document.createElement('textarea')
+  textarea.value = text
+  // readonly keeps mobile keyboards closed, 12pt stops iOS from zooming in on focus
+  textarea.setAttribute('readonly', '')
+  textarea.setAttribute('aria-hidden', 'true')
+  Object.assign(textarea.style, {
+    position: 'fixed',
+    top: '0',
+    left: '-9999px',
+    opacity: '0',
+    fontSize: '12pt',
+  })
+
+  document.body.appendChild(textarea)
+  try {
+    textarea.select()
+    // iOS ignores `select()` on readonly fields
+    textarea.setSelectionRange(0, text.length)
+    return document.execCommand('copy')
+  } catch {
+    return false
+  } finally {
+    textarea.remove()
+    restoreSelection()
+  }
+}
+
+const toError = (reason: unknown) => (reason instanceof Error ? reason : new Error(String(reason)))
+
+const getClipboard = () => (typeof navigator === 'undefined' ? undefined : navigator?.clipboard)
+
+const canWriteItems = () =>
+  typeof ClipboardItem !== 'undefined' && typeof getClipboard()?.write === 'function'
+
+export function useClipboard(options: UseClipboardOptions = {}): UseClipboardReturn {
+  const isSSR = typeof window === 'undefined' || !window
+  const { timeout = DEFAULT_TIMEOUT, fallback = true, onCopy, onError } = options
   const targetRef = useRef<HTMLElement | null>(null)
+  const resetTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
   const [isCopied, setIsCopied] = useState<boolean>(false)
+  const [error, setError] = useState<Error | null>(null)
+  const [strategy, setStrategy] = useState<ClipboardStrategy | null>(null)
+  const [readPermission, setReadPermission] = useState<PermissionStateExtended>('unavailable')
 
-  const copyToClipboard = useCallback(async () => {
-    if (isSSR) return false
-    // check the element of the targetRef where it was referenced at
-    const element = targetRef.current
+  const clearResetTimer = useCallback(() => {
+    if (resetTimer.current) clearTimeout(resetTimer.current)
+    resetTimer.current = null
+  }, [])
 
-    //check if element is null
-    if (!element) return false
+  const reset = useCallback(() => {
+    clearResetTimer()
+    setIsCopied(false)
+    setError(null)
+  }, [clearResetTimer])
 
-    try {
-      const value = element?.innerText ?? element?.textContent ?? ''
+  const report = useCallback(
+    (reason: unknown) => {
+      const clipboardError = toError(reason)
+      setError(clipboardError)
+      onError?.(clipboardError)
+    },
+    [onError],
+  )
 
-      if (typeof navigator === 'undefined' || !navigator?.clipboard?.writeText) return false
+  const fail = useCallback(
+    (reason: unknown) => {
+      clearResetTimer()
+      setIsCopied(false)
+      report(reason)
+      return false
+    },
+    [clearResetTimer, report],
+  )
 
-      // copy the text to the clipboard
-      await navigator.clipboard.writeText(value)
+  const succeed = useCallback(
+    (content: string | Blob, usedStrategy: ClipboardStrategy) => {
       setIsCopied(true)
-      setTimeout(() => setIsCopied(false), 3000) // schedule to setIsCopied to false back
+      setError(null)
+      setStrategy(usedStrategy)
+      onCopy?.(content, usedStrategy)
+      // a new copy restarts the countdown instead of being reset by the previous one
+      clearResetTimer()
+      if (timeout > 0) resetTimer.current = setTimeout(() => setIsCopied(false), timeout)
       return true
-    } catch (error) {
-      console.error('Error copying text on clipboard', error)
-      setIsCopied(false)
-      return false
+    },
+    [timeout, onCopy, clearResetTimer],
+  )
+
+  const writeText = useCallback(
+    async (text: string) => {
+      if (isSSR) return false
+      const clipboard = getClipboard()
+      let apiError: unknown = new Error('Clipboard API is not available')
+
+      if (clipboard?.writeText) {
+        try {
+          // copy the text to the clipboard
+          await clipboard.writeText(text)
+          return succeed(text, 'clipboard-api')
+        } catch (err) {
+          console.error('Error copying text on clipboard', err)
+          apiError = err
+        }
+      }
+
+      const copied = fallback ? copyWithExecCommand(text) : null
+      if (copied) return succeed(text, 'exec-command')
+      // a rejected api call explains more than a rejected command, unless there was no api to try
+      const commandRejected = copied === false && !clipboard?.writeText
+      return fail(commandRejected ? new Error('Copy command was rejected') : apiError)
+    },
+    [isSSR, fallback, fail, succeed],
+  )
+
+  const copyFrom = useCallback(
+    async (ref: RefObject<HTMLElement | null>) => {
+      if (isSSR) return false
+      // check the element of the ref where it was referenced at
+      const element = ref.current
+      if (!element) return fail(new Error('No element to copy from'))
+      return writeText(readElementText(element))
+    },
+    [isSSR, writeText, fail],
+  )
+
+  const copy = useCallback(
+    (text?: string | SyntheticEvent) =>
+      // `onClick={copy}` passes the click event, only an actual string is copied as is
+      typeof text === 'string' ? writeText(text) : copyFrom(targetRef),
+    [writeText, copyFrom],
+  )
+
+  const copyHtml = useCallback(
+    async (html: string, plainText?: string) => {
+      if (isSSR) return false
+      const text = plainText ?? htmlToText(html)
+      // without ClipboardItem the plain text is still better than nothing
+      if (!canWriteItems()) return writeText(text)
+
+      try {
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/html': new Blob([html], { type: 'text/html' }),
+            'text/plain': new Blob([text], { type: 'text/plain' }),
+          }),
+        ])
+      } catch (err) {
+        console.error('Error copying html on clipboard', err)
+        return fail(err)
+      }
+      return succeed(html, 'clipboard-api')
+    },
+    [isSSR, writeText, fail, succeed],
+  )
+
+  const copyImage = useCallback(
+    async (canvas: HTMLCanvasElement) => {
+      if (isSSR) return false
+      if (!canWriteItems()) return fail(new Error('Copying images is not supported'))
+
+      // handed over as a promise, Safari drops the user gesture if the write waits for the encoding
+      const png = canvasToPng(canvas)
+      // a rejected write leaves the encoding unawaited, its failure is reported through the write
+      png.catch(() => {})
+      try {
+        await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })])
+        return succeed(await png, 'clipboard-api')
+      } catch (err) {
+        console.error('Error copying image on clipboard', err)
+        return fail(err)
+      }
+    },
+    [isSSR, fail, succeed],
+  )
+
+  const readWith = useCallback(
+    async <T>(method: 'read' | 'readText'): Promise<T | null> => {
+      if (isSSR) return null
+      const clipboard = getClipboard()
+      if (typeof clipboard?.[method] !== 'function') {
+        report(new Error('Clipboard API is not available'))
+        return null
+      }
+      // a denied permission fails without prompting, `prompt` lets the browser ask
+      if (readPermission === 'denied') {
+        report(new Error('Clipboard read permission denied'))
+        return null
+      }
+
+      try {
+        const contents = (await clipboard[method]()) as T
+        setError(null)
+        return contents
+      } catch (err) {
+        console.error('Error reading clipboard', err)
+        report(err)
+        return null
+      }
+    },
+    [isSSR, readPermission, report],
+  )
+
+  const read = useCallback(() => readWith<ClipboardItems>('read'), [readWith])
+  const readText = useCallback(() => readWith<string>('readText'), [readWith])
+
+  useEffect(() => {
+    // check if permissions api is supported or available
+    if (isSSR || typeof navigator === 'undefined' || !('permissions' in navigator)) return
+
+    let permissionStatusRef: PermissionStatus | null = null
+    let handleRef: () => void = () => {}
+    let cancelled = false
+
+    navigator.permissions
+      .query({ name: 'clipboard-read' as PermissionName })
+      .then((status) => {
+        if (cancelled) return
+        permissionStatusRef = status
+        setReadPermission(status.state)
+
+        handleRef = () => setReadPermission(status.state)
+        status.addEventListener('change', handleRef)
+      })
+      .catch(() => {
+        // e.g. Firefox does not know `clipboard-read`, reading is attempted anyway
+        if (!cancelled) setReadPermission('unavailable')
+      })
+
+    return () => {
+      cancelled = true
+
+      if (permissionStatusRef && handleRef) {
+        permissionStatusRef.removeEventListener('change', handleRef)
+      }
     }
   }, [isSSR])
 
+  // no state update after unmount
+  useEffect(() => clearResetTimer, [clearResetTimer])
+
   return {
     ref: targetRef,
     copied: isCopied,
-    copy: copyToClipboard,
+    strategy,
+    error,
+    copy,
+    copyFrom,
+    copyHtml,
+    copyImage,
+    read,
+    readText,
+    readPermission,
+    reset,
   }
 }
@@ -1,5 +1,11 @@
 import { useState, useCallback, useEffect } from 'react'
 import { isSSR } from '../../helpers/is-ssr'
+import {
+  StorageAdapter,
+  localStorageAdapter,
+  sessionStorageAdapter,
+} from '../../utils/storage/storage-adapter'
+import { withNamespace } from '../../utils/storage/namespace'
 
 interface ColorPalette {
   primary: string
@@ -12,8 +18,10 @@ interface Options {
     light?: Partial<ColorPalette>
     dark?: Partial<ColorPalette>
   }
-  storage?: 'local' | 'session'
+  storage?: 'local' | 'session' | StorageAdapter
   storageKey?: string
+  // stores the mode under `<namespace>:<storageKey>`
+  namespace?: string
   enableSystem?: boolean
 }
 
@@ -40,6 +48,7 @@ export function useColorScheme(options: Options = {}): UseColorSchemeResult {
     themes = {},
     storage = 'local',
     storageKey = 'color-scheme',
+    namespace,
     enableSystem = true,
   } = options
 
@@ -82,21 +91,21 @@ export function useColorScheme(options: Options = {}): UseColorSchemeResult {
     [],
   )
 
-  const getStorage = useCallback(() => {
+  const getStorage = useCallback((): StorageAdapter | null => {
     if (isSSR) return null
-    try {
-      return storage === 'local' ? localStorage : sessionStorage
-    } catch {
-      return null
-    }
-  }, [storage])
+    if (typeof storage === 'object') return withNamespace(storage, namespace)
+    return withNamespace(
+      storage === 'local' ? localStorageAdapter : sessionStorageAdapter,
+      namespace,
+    )
+  }, [storage, namespace])
 
   const loadFromStorage = useCallback((): 'light' | 'dark' | 'system' | null => {
     const storageInstance = getStorage()
     if (!storageInstance) return null
 
     try {
-      const stored = storageInstance.getItem(storageKey)
+      const stored = storageInstance.get(storageKey)
       if (!stored) return null
 
       const parsed = JSON.parse(stored)
@@ -120,7 +129,7 @@ export function useColorScheme(options: Options = {}): UseColorSchemeResult {
       if (!storageInstance) return
 
       try {
-        storageInstance.setItem(storageKey, JSON.stringify({ mode, timestamp: Date.now() }))
+        storageInstance.set(storageKey, JSON.stringify({ mode, timestamp: Date.now() }))
       } catch {}
     },
     [storageKey, getStorage],
@@ -219,7 +228,7 @@ export function useColorScheme(options: Options = {}): UseColorSchemeResult {
     const storageInstance = getStorage()
     if (storageInstance) {
       try {
-        storageInstance.removeItem(storageKey)
+        storageInstance.remove(storageKey)
       } catch {
         // ignore storage errors
       }
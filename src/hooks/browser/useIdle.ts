@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { isSSR } from '../../helpers/is-ssr'
 
 interface UseIdle {
@@ -11,19 +11,79 @@ interface UseIdle {
   resume?: () => void
 }
 
-const MAX_IDLE_TIME = 180000 // 3 minutes
-const INITIAL_ACTIVITY = isSSR ? 0 : Date.now()
+interface UseIdleOptions {
+  // ms without activity before the user is idle
+  timeout?: number
+  // activity events, see DOCUMENT_EVENTS for the ones listened to on the document
+  events?: string[]
+  // idle until the first activity, e.g. for a tab opened in the background
+  initialState?: boolean
+  onIdle?: () => void
+  onActive?: () => void
+  // shares activity with the other tabs of the app, a string names the BroadcastChannel
+  crossTab?: boolean | string
+}
 
-export function useIdle(): UseIdle {
+type ActivityMessage = { type: 'activity'; at: number }
+
+const DEFAULT_TIMEOUT = 180000 // 3 minutes
+const DEFAULT_EVENTS = [
+  'mousemove',
+  'keypress',
+  'keydown',
+  'mousedown',
+  'touchstart',
+  'touchmove',
+  'wheel',
+  'scroll',
+  'visibilitychange',
+]
+// scroll does not bubble and touch/wheel listeners must stay passive, so these are captured on
+// the document where they are seen for every scroll container
+const DOCUMENT_EVENTS = new Set(['scroll', 'wheel', 'touchstart', 'touchmove', 'visibilitychange'])
+const DOCUMENT_LISTENER_OPTIONS: AddEventListenerOptions = { capture: true, passive: true }
+const DEFAULT_CHANNEL = 'garuda-hooks:idle'
+// activity is shared at most once per interval, mousemove would flood the channel otherwise
+const BROADCAST_INTERVAL = 1000
+
+export function useIdle(options: UseIdleOptions = {}): UseIdle {
+  const {
+    timeout = DEFAULT_TIMEOUT,
+    events = DEFAULT_EVENTS,
+    initialState = false,
+    onIdle,
+    onActive,
+    crossTab = false,
+  } = options
+
+  // mounting counts as activity, a hook mounted long after the page loaded starts active
+  const [mountedAt] = useState(() => (isSSR ? 0 : Date.now()))
   const [idleInfo, setIdleInfo] = useState<UseIdle>({
-    isIdle: false,
-    lastActivity: INITIAL_ACTIVITY,
+    isIdle: initialState,
+    lastActivity: mountedAt,
     idleTime: 0,
   })
 
-  const lastActivityRef = useRef<number>(INITIAL_ACTIVITY)
+  const lastActivityRef = useRef<number>(mountedAt)
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const listeningRef = useRef(false)
+  // reported state, so the callbacks only fire on transitions
+  const isIdleRef = useRef(initialState)
+  // `initialState` stays idle until there is activity, whatever the elapsed time
+  const idleUntilActivityRef = useRef(initialState)
+  const channelRef = useRef<BroadcastChannel | null>(null)
+  const lastBroadcastRef = useRef(0)
+  const onIdleRef = useRef(onIdle)
+  const onActiveRef = useRef(onActive)
+
+  useEffect(() => {
+    onIdleRef.current = onIdle
+    onActiveRef.current = onActive
+  }, [onIdle, onActive])
+
+  // inline arrays are compared by content, so they do not re-attach the listeners every render
+  const eventsKey = events.join(',')
+  const activityEvents = useMemo(() => eventsKey.split(',').filter(Boolean), [eventsKey])
 
   const stopTimer = useCallback(() => {
     if (timerRef.current) {
@@ -35,12 +95,18 @@ export function useIdle(): UseIdle {
   const tick = useCallback(() => {
     const now = Date.now()
     const elapsed = now - lastActivityRef.current
+    const isIdle = idleUntilActivityRef.current || elapsed >= timeout
     setIdleInfo({
-      isIdle: elapsed >= MAX_IDLE_TIME,
+      isIdle,
       idleTime: elapsed,
       lastActivity: lastActivityRef.current,
     })
-  }, [])
+
+    if (isIdle && !isIdleRef.current) {
+      isIdleRef.current = true
+      onIdleRef.current?.()
+    }
+  }, [timeout])
 
   const startTimer = useCallback(() => {
     // always clear timer first to make sure
@@ -48,34 +114,62 @@ export function useIdle(): UseIdle {
     timerRef.current = setInterval(tick, 1000)
   }, [stopTimer, tick])
 
-  const handleActivity = useCallback(() => {
-    if (isSSR) return
-    const now = Date.now()
-    lastActivityRef.current = now
+  const markActive = useCallback((at: number) => {
+    lastActivityRef.current = at
+    idleUntilActivityRef.current = false
     setIdleInfo({
       isIdle: false,
-      idleTime: 0,
-      lastActivity: now,
+      idleTime: Math.max(0, Date.now() - at),
+      lastActivity: at,
     })
+
+    if (isIdleRef.current) {
+      isIdleRef.current = false
+      onActiveRef.current?.()
+    }
   }, [])
 
+  const handleActivity = useCallback(
+    (event?: Event) => {
+      if (isSSR) return
+      // coming back to the tab is activity, leaving it is not
+      if (event?.type === 'visibilitychange' && document.visibilityState === 'hidden') return
+
+      const now = Date.now()
+      markActive(now)
+
+      const channel = channelRef.current
+      if (channel && now - lastBroadcastRef.current >= BROADCAST_INTERVAL) {
+        lastBroadcastRef.current = now
+        channel.postMessage({ type: 'activity', at: now } satisfies ActivityMessage)
+      }
+    },
+    [markActive],
+  )
+
   const attachListeners = useCallback(() => {
     if (isSSR || listeningRef.current) return
-    window.addEventListener('mousemove', handleActivity)
-    window.addEventListener('keypress', handleActivity)
-    window.addEventListener('keydown', handleActivity)
-    window.addEventListener('mousedown', handleActivity)
+    activityEvents.forEach((type) => {
+      if (DOCUMENT_EVENTS.has(type)) {
+        document.addEventListener(type, handleActivity, DOCUMENT_LISTENER_OPTIONS)
+      } else {
+        window.addEventListener(type, handleActivity)
+      }
+    })
     listeningRef.current = true
-  }, [handleActivity])
+  }, [activityEvents, handleActivity])
 
   const detachListeners = useCallback(() => {
     if (isSSR || !listeningRef.current) return
-    window.removeEventListener('mousemove', handleActivity)
-    window.removeEventListener('keypress', handleActivity)
-    window.removeEventListener('keydown', handleActivity)
-    window.removeEventListener('mousedown', handleActivity)
+    activityEvents.forEach((type) => {
+      if (DOCUMENT_EVENTS.has(type)) {
+        document.removeEventListener(type, handleActivity, DOCUMENT_LISTENER_OPTIONS)
+      } else {
+        window.removeEventListener(type, handleActivity)
+      }
+    })
     listeningRef.current = false
-  }, [handleActivity])
+  }, [activityEvents, handleActivity])
 
   const reset = useCallback(() => {
     if (isSSR) return
@@ -107,6 +201,26 @@ export function useIdle(): UseIdle {
     }
   }, [attachListeners, detachListeners, startTimer, stopTimer])
 
+  useEffect(() => {
+    if (isSSR || !crossTab || typeof BroadcastChannel === 'undefined') return
+
+    const channel = new BroadcastChannel(typeof crossTab === 'string' ? crossTab : DEFAULT_CHANNEL)
+    channelRef.current = channel
+
+    channel.onmessage = (event: MessageEvent<ActivityMessage>) => {
+      const { type, at } = event.data ?? {}
+      // a paused hook ignores the other tabs as well, and older activity changes nothing
+      if (!listeningRef.current || type !== 'activity' || typeof at !== 'number') return
+      if (at <= lastActivityRef.current) return
+      markActive(at)
+    }
+
+    return () => {
+      channel.close()
+      channelRef.current = null
+    }
+  }, [crossTab, markActive])
+
   return {
     isIdle: idleInfo?.isIdle,
     lastActivity: idleInfo?.lastActivity,
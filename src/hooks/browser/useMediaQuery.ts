@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react'
+import { readMediaQuery, subscribeMediaQuery } from '../../utils/media/media-query'
 
-type MediaQueryOptions = {
+export type MediaQueryOptions = {
   defaultMatch?: boolean
   initializeWithValue?: boolean
   ssrMatchMedia?: (q: string) => { matches: boolean }
@@ -13,40 +14,26 @@ export function useMediaQuery(query: string, options: MediaQueryOptions = {}): U
   const { defaultMatch, ssrMatchMedia, initializeWithValue = true } = options ?? {}
 
   const getMatch = useCallback(() => {
-    if (isSSR || typeof window === 'undefined' || !window.matchMedia) {
-      if (ssrMatchMedia) return ssrMatchMedia(query).matches
-      return defaultMatch ?? false
-    }
-    return window.matchMedia(query).matches
+    const match = isSSR ? undefined : readMediaQuery(query)
+    if (match !== undefined) return match
+    if (ssrMatchMedia) return ssrMatchMedia(query).matches
+    return defaultMatch ?? false
   }, [query, defaultMatch, ssrMatchMedia, isSSR])
 
-  const attachListener = useCallback(
-    (media: MediaQueryList, onChange: EventListenerOrEventListenerObject) => {
-      try {
-        media.addEventListener('change', onChange)
-        return () => media.removeEventListener('change', onChange)
-      } catch {
-        // return no operation
-        return () => {}
-      }
-    },
-    [],
-  )
-
   const [matches, setMatches] = useState(() =>
     initializeWithValue ? getMatch() : (defaultMatch ?? false),
   )
 
   useEffect(() => {
-    if (isSSR || typeof window === 'undefined' || !window.matchMedia) return
-    const media = window.matchMedia(query)
-
-    const handleChange = (event: Event) =>
-      setMatches('matches' in event ? (event as MediaQueryListEvent).matches : media.matches)
-
-    const cleanup = attachListener(media, handleChange)
-    return cleanup
-  }, [query, attachListener, isSSR, initializeWithValue])
+    if (isSSR) return
+    // the listener is shared with every other hook watching the same query
+    const unsubscribe = subscribeMediaQuery(query, setMatches)
+    // catch up after mount (or a new query), a preference that never changes is never reported
+    const current = readMediaQuery(query)
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    if (current !== undefined) setMatches(current)
+    return unsubscribe
+  }, [query, isSSR, initializeWithValue])
 
   return { matches }
 }
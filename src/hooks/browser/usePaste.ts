@@ -0,0 +1,112 @@
+import { useEffect, useRef, RefObject } from 'react'
+import { isSSR } from '../../helpers/is-ssr'
+
+/**
+ *
+ * Intercepts `paste` on an element, or on the whole document, and hands over what was pasted
+ * as plain text, html and files
+ */
+
+export type PasteRejection = {
+  file: File
+  reason: 'type' | 'size'
+}
+
+export type PasteData = {
+  // empty when nothing textual was pasted
+  text: string
+  html: string | null
+  // files that passed `accept` and `maxSize`, e.g. screenshots
+  files: File[]
+  rejected: PasteRejection[]
+}
+
+interface Options {
+  enabled?: boolean
+  // MIME types of the accepted files, `image/*` style wildcards are supported
+  accept?: string[]
+  // max size of a single file in bytes
+  maxSize?: number
+  // stops the browser from inserting the pasted content itself
+  preventDefault?: boolean
+  capture?: boolean
+}
+
+const matchesMime = (type: string, accept: string[]) =>
+  accept.some((pattern) => {
+    const expected = pattern.trim().toLowerCase()
+    const actual = type.toLowerCase()
+    if (expected === '*/*' || expected === '*') return true
+    if (expected.endsWith('/*')) return actual.startsWith(expected.slice(0, -1))
+    return actual === expected
+  })
+
+// some browsers only expose pasted files through `items`
+const getFiles = (data: DataTransfer) => {
+  if (data.files?.length) return Array.from(data.files)
+
+  return Array.from(data.items ?? [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => file !== null)
+}
+
+function extractPasteData(
+  data: DataTransfer | null,
+  options: Pick<Options, 'accept' | 'maxSize'> = {},
+): PasteData {
+  const { accept, maxSize } = options
+  const pasted: PasteData = { text: '', html: null, files: [], rejected: [] }
+  if (!data) return pasted
+
+  pasted.text = data.getData('text/plain') ?? ''
+  pasted.html = data.getData('text/html') || null
+
+  getFiles(data).forEach((file) => {
+    if (accept?.length && !matchesMime(file.type, accept)) {
+      pasted.rejected.push({ file, reason: 'type' })
+    } else if (maxSize !== undefined && file.size > maxSize) {
+      pasted.rejected.push({ file, reason: 'size' })
+    } else {
+      pasted.files.push(file)
+    }
+  })
+  return pasted
+}
+
+export function usePaste(
+  ref: RefObject<HTMLElement | null> | null,
+  handler: (data: PasteData, event: ClipboardEvent) => void,
+  options: Options = {},
+) {
+  const { enabled = true, accept, maxSize, preventDefault = false, capture } = options
+
+  // latest handler and filters, so inline values do not re-attach the listener every render
+  const handlerRef = useRef(handler)
+  const filtersRef = useRef({ accept, maxSize })
+
+  useEffect(() => {
+    handlerRef.current = handler
+    filtersRef.current = { accept, maxSize }
+  }, [handler, accept, maxSize])
+
+  useEffect(() => {
+    if (isSSR || !enabled) return
+
+    // no ref listens on the whole document, an unattached ref listens nowhere
+    const target: HTMLElement | Document | null = ref ? ref.current : document
+    if (!target) return
+
+    const eventListener = (event: Event) => {
+      const pasteEvent = event as ClipboardEvent
+      if (preventDefault) pasteEvent.preventDefault()
+      handlerRef.current(extractPasteData(pasteEvent.clipboardData, filtersRef.current), pasteEvent)
+    }
+
+    target.addEventListener('paste', eventListener, capture)
+
+    return () => {
+      target.removeEventListener('paste', eventListener, capture)
+    }
+  }, [ref, enabled, preventDefault, capture])
+}
@@ -0,0 +1,171 @@
+import { useMemo } from 'react'
+import { useMediaQuery } from './useMediaQuery'
+
+/**
+ *
+ * User preference media features as one object, with server values from client hints
+ */
+
+export type ContrastPreference = 'no-preference' | 'more' | 'less' | 'custom'
+
+export type Preferences = {
+  reducedMotion: boolean
+  contrast: ContrastPreference
+  reducedTransparency: boolean
+  // the browser enforces a limited palette, e.g. Windows high contrast themes
+  forcedColors: boolean
+  invertedColors: boolean
+  reducedData: boolean
+}
+
+// plain headers objects (e.g. node's IncomingHttpHeaders) or anything with `get`, like `Headers`
+export type ClientHintHeaders =
+  | { get: (name: string) => string | null }
+  | Record<string, string | string[] | undefined>
+
+interface Options {
+  // request headers carrying `Sec-CH-Prefers-*` client hints, used before the client can match
+  clientHints?: ClientHintHeaders | null
+  // values for features without a hint
+  defaults?: Partial<Preferences>
+  initializeWithValue?: boolean
+}
+
+// headers to request through `Accept-CH` (and `Critical-CH` to have them on the first request)
+export const PREFERENCE_CLIENT_HINTS = [
+  'Sec-CH-Prefers-Reduced-Motion',
+  'Sec-CH-Prefers-Reduced-Transparency',
+  'Sec-CH-Prefers-Contrast',
+  'Sec-CH-Forced-Colors',
+  'Sec-CH-Prefers-Reduced-Data',
+] as const
+
+const DEFAULT_PREFERENCES: Preferences = {
+  reducedMotion: false,
+  contrast: 'no-preference',
+  reducedTransparency: false,
+  forcedColors: false,
+  invertedColors: false,
+  reducedData: false,
+}
+
+const CONTRAST_VALUES: ContrastPreference[] = ['no-preference', 'more', 'less', 'custom']
+
+const readHeader = (headers: ClientHintHeaders, name: string) => {
+  let value: string | string[] | null | undefined
+  if (typeof headers.get === 'function') {
+    value = (headers as { get: (name: string) => string | null }).get(name)
+  } else {
+    const records = headers as Record<string, string | string[] | undefined>
+    const key = Object.keys(records).find((header) => header.toLowerCase() === name.toLowerCase())
+    value = key === undefined ? undefined : records[key]
+  }
+
+  const raw = Array.isArray(value) ? value[0] : value
+  // hints are structured header tokens, sometimes sent quoted
+  return raw
+    ?.trim()
+    .replace(/^"(.*)"$/, '$1')
+    .toLowerCase()
+}
+
+/**
+ * Preferences sent by the browser as client hints, features without a (valid) hint are left out.
+ */
+export function preferencesFromClientHints(headers: ClientHintHeaders): Partial<Preferences> {
+  const preferences: Partial<Preferences> = {}
+
+  const motion = readHeader(headers, 'Sec-CH-Prefers-Reduced-Motion')
+  if (motion === 'reduce' || motion === 'no-preference') {
+    preferences.reducedMotion = motion === 'reduce'
+  }
+
+  const transparency = readHeader(headers, 'Sec-CH-Prefers-Reduced-Transparency')
+  if (transparency === 'reduce' || transparency === 'no-preference') {
+    preferences.reducedTransparency = transparency === 'reduce'
+  }
+
+  const contrast = readHeader(headers, 'Sec-CH-Prefers-Contrast')
+  if (CONTRAST_VALUES.includes(contrast as ContrastPreference)) {
+    preferences.contrast = contrast as ContrastPreference
+  }
+
+  const forcedColors = readHeader(headers, 'Sec-CH-Forced-Colors')
+  if (forcedColors === 'active' || forcedColors === 'none') {
+    preferences.forcedColors = forcedColors === 'active'
+  }
+
+  const reducedData = readHeader(headers, 'Sec-CH-Prefers-Reduced-Data')
+  if (reducedData === 'reduce' || reducedData === 'no-preference') {
+    preferences.reducedData = reducedData === 'reduce'
+  } else if (readHeader(headers, 'Save-Data') === 'on') {
+    // the older data saver hint means the same
+    preferences.reducedData = true
+  }
+
+  return preferences
+}
+
+export function usePreferences(options: Options = {}): Preferences {
+  const { clientHints, defaults, initializeWithValue } = options
+
+  // what the server assumes until the client matches the media features itself
+  const server: Preferences = {
+    ...DEFAULT_PREFERENCES,
+    ...defaults,
+    ...(clientHints ? preferencesFromClientHints(clientHints) : {}),
+  }
+
+  const { matches: reducedMotion } = useMediaQuery('(prefers-reduced-motion: reduce)', {
+    defaultMatch: server.reducedMotion,
+    initializeWithValue,
+  })
+  const { matches: moreContrast } = useMediaQuery('(prefers-contrast: more)', {
+    defaultMatch: server.contrast === 'more',
+    initializeWithValue,
+  })
+  const { matches: lessContrast } = useMediaQuery('(prefers-contrast: less)', {
+    defaultMatch: server.contrast === 'less',
+    initializeWithValue,
+  })
+  const { matches: customContrast } = useMediaQuery('(prefers-contrast: custom)', {
+    defaultMatch: server.contrast === 'custom',
+    initializeWithValue,
+  })
+  const { matches: reducedTransparency } = useMediaQuery('(prefers-reduced-transparency: reduce)', {
+    defaultMatch: server.reducedTransparency,
+    initializeWithValue,
+  })
+  const { matches: forcedColors } = useMediaQuery('(forced-colors: active)', {
+    defaultMatch: server.forcedColors,
+    initializeWithValue,
+  })
+  const { matches: invertedColors } = useMediaQuery('(inverted-colors: inverted)', {
+    defaultMatch: server.invertedColors,
+    initializeWithValue,
+  })
+  const { matches: reducedData } = useMediaQuery('(prefers-reduced-data: reduce)', {
+    defaultMatch: server.reducedData,
+    initializeWithValue,
+  })
+
+  const contrast: ContrastPreference = moreContrast
+    ? 'more'
+    : lessContrast
+      ? 'less'
+      : customContrast
+        ? 'custom'
+        : 'no-preference'
+
+  return useMemo(
+    () => ({
+      reducedMotion,
+      contrast,
+      reducedTransparency,
+      forcedColors,
+      invertedColors,
+      reducedData,
+    }),
+    [reducedMotion, contrast, reducedTransparency, forcedColors, invertedColors, reducedData],
+  )
+}
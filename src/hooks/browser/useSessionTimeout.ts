@@ -0,0 +1,155 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { useIdle } from './useIdle'
+import { useLocalStorage } from '../storage/useLocalStorage'
+import { STORAGE_ENV, storageAdapter } from '../../utils/storage/storage-env'
+import { StorageAdapter } from '../../utils/storage/storage-adapter'
+import { isSSR } from '../../helpers/is-ssr'
+
+/**
+ * useSessionTimeout:
+ *
+ * Signs idle users out. The session moves to `warning` after `idleTimeout` ms without activity
+ * and to `expired` once `warningDuration` more ms have passed. The deadline is persisted, so a
+ * reload (or another tab of the app) continues the same countdown instead of starting a new one.
+ */
+
+export type SessionStatus = 'active' | 'warning' | 'expired'
+
+interface UseSessionTimeoutOptions {
+  // ms without activity before the warning
+  idleTimeout?: number
+  // ms between the warning and the expiry
+  warningDuration?: number
+  // activity events, passed to useIdle
+  events?: string[]
+  onWarn?: () => void
+  onTimeout?: () => void
+  // storage key of the deadline
+  key?: string
+  // backend the deadline is persisted to, defaults to localStorage so every tab shares it
+  storage?: STORAGE_ENV | StorageAdapter
+  // stores the deadline under `<namespace>:<key>`
+  namespace?: string
+}
+
+interface UseSessionTimeoutReturn {
+  status: SessionStatus
+  // ms until the session expires, 0 once expired
+  remaining: number
+  // whole seconds until the session expires, for the warning prompt
+  countdown: number
+  // time the session expires at, null until the session has started
+  deadline: number | null
+  // restarts the idle period, e.g. from the warning's "stay signed in" button. an expired
+  // session can not be extended
+  extend: () => void
+  // starts a new session after the expiry, e.g. once the user has signed in again
+  reset: () => void
+}
+
+const DEFAULT_IDLE_TIMEOUT = 900000 // 15 minutes
+const DEFAULT_WARNING_DURATION = 60000 // 1 minute
+const DEFAULT_KEY = 'garuda-hooks:session-deadline'
+const TICK_INTERVAL = 1000
+// activity moves the stored deadline at most once per interval, mousemove would write constantly
+const ACTIVITY_WRITE_INTERVAL = 1000
+
+const getStatus = (
+  deadline: number | null,
+  now: number,
+  warningDuration: number,
+): SessionStatus => {
+  if (deadline === null) return 'active'
+  if (now >= deadline) return 'expired'
+  return now >= deadline - warningDuration ? 'warning' : 'active'
+}
+
+export function useSessionTimeout(options: UseSessionTimeoutOptions = {}): UseSessionTimeoutReturn {
+  const {
+    idleTimeout = DEFAULT_IDLE_TIMEOUT,
+    warningDuration = DEFAULT_WARNING_DURATION,
+    events,
+    onWarn,
+    onTimeout,
+    key = DEFAULT_KEY,
+    storage = STORAGE_ENV.LOCAL_STORAGE,
+    namespace,
+  } = options
+  const sessionLength = idleTimeout + warningDuration
+
+  const adapter = storageAdapter(storage)
+  const { storedValue: deadline, setValue: setDeadline } = useLocalStorage<number | null>(
+    key,
+    null,
+    { adapter, namespace },
+  )
+  const { lastActivity } = useIdle({ timeout: idleTimeout, events })
+  const [now, setNow] = useState(() => (isSSR ? 0 : Date.now()))
+
+  // activity seen so far, the value useIdle mounts with is not new activity
+  const lastActivityRef = useRef(lastActivity)
+  const statusRef = useRef<SessionStatus | null>(null)
+  const onWarnRef = useRef(onWarn)
+  const onTimeoutRef = useRef(onTimeout)
+
+  useEffect(() => {
+    onWarnRef.current = onWarn
+    onTimeoutRef.current = onTimeout
+  }, [onWarn, onTimeout])
+
+  const status = getStatus(deadline, now, warningDuration)
+  const remaining = deadline === null ? sessionLength : Math.max(0, deadline - now)
+
+  // starts the session unless a stored deadline is still running (or already expired)
+  useEffect(() => {
+    if (isSSR || deadline !== null) return
+    setDeadline(Date.now() + sessionLength)
+  }, [deadline, sessionLength, setDeadline])
+
+  useEffect(() => {
+    if (lastActivity <= lastActivityRef.current) return
+    lastActivityRef.current = lastActivity
+
+    // only an active session follows activity, the warning has to be dismissed with extend()
+    if (status !== 'active') return
+    const next = lastActivity + sessionLength
+    if (deadline === null || next - deadline >= ACTIVITY_WRITE_INTERVAL) setDeadline(next)
+  }, [lastActivity, status, deadline, sessionLength, setDeadline])
+
+  useEffect(() => {
+    if (isSSR || deadline === null || status === 'expired') return
+
+    const timer = setInterval(() => setNow(Date.now()), TICK_INTERVAL)
+    return () => clearInterval(timer)
+  }, [deadline, status])
+
+  // callbacks fire on transitions, a reload into a warned or expired session fires them again
+  useEffect(() => {
+    if (statusRef.current === status) return
+    statusRef.current = status
+
+    if (status === 'warning') onWarnRef.current?.()
+    if (status === 'expired') onTimeoutRef.current?.()
+  }, [status])
+
+  const reset = useCallback(() => {
+    if (isSSR) return
+    const at = Date.now()
+    setNow(at)
+    setDeadline(at + sessionLength)
+  }, [sessionLength, setDeadline])
+
+  const extend = useCallback(() => {
+    if (isSSR || (deadline !== null && Date.now() >= deadline)) return
+    reset()
+  }, [deadline, reset])
+
+  return {
+    status,
+    remaining,
+    countdown: Math.ceil(remaining / 1000),
+    deadline,
+    extend,
+    reset,
+  }
+}
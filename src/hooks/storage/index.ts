@@ -1,3 +1,6 @@
 export * from './useCookies'
 export * from './useLocalStorage'
 export * from './useSessionStorage'
+export * from './useIndexedDB'
+export * from './useStorageState'
+export * from './usePersistentQueue'
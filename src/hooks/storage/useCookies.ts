@@ -1,27 +1,57 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import {
+  CookieAttributes,
+  CookieSource,
+  resolveCookieSource,
+  validateCookieAttributes,
+} from '../../utils/storage/cookie'
+import {
+  StorageAdapter,
+  cookieAdapter,
+  createCookieAdapter,
+  createMemoryAdapter,
+} from '../../utils/storage/storage-adapter'
+import { namespacedKey, withNamespace } from '../../utils/storage/namespace'
+import { KeyStoreRecord, getKeyStore } from '../../utils/storage/key-store'
+import { IntegrityOptions, createSealQueue, createSealer } from '../../utils/storage/integrity'
 
-interface UseCookieOptions<T> {
+interface UseCookieOptions<T> extends CookieAttributes {
   decode?: (value: string | null) => T | null
   encode?: (value: T | null) => string
-  path?: string
-  domain?: string
-  sameSite?: 'strict' | 'lax' | 'none'
-  secure?: boolean
-  maxAge?: number // seconds
+  // stores the cookie as `<namespace>:<key>`
+  namespace?: string
+  // request cookies read on the server, so server and client render the same value
+  ssrCookies?: CookieSource
+  // sign (or encrypt) the cookie, values that fail verification are treated as missing
+  integrity?: IntegrityOptions
 }
 
-interface UseCookiesReturn<T> {
+interface UseCookieReturn<T> {
   value: T | null
   readCookie: () => T | null
-  setCookie: (val: T | null) => void
+  // functional updates receive the latest published value, like useLocalStorage's setValue
+  setCookie: (val: T | null | ((prev: T | null) => T | null)) => void
   removeCookie: () => void
 }
 
+// jar built from the request cookies, looked up the same way as document.cookie on the client
+const serverCookieAdapter = (ssrCookies: CookieSource, namespace?: string) =>
+  withNamespace(createMemoryAdapter(resolveCookieSource(ssrCookies)), namespace)
+
+const readJar = (adapter: StorageAdapter): Record<string, string> => {
+  const jar: Record<string, string> = {}
+  adapter.keys().forEach((name) => {
+    const value = adapter.get(name)
+    if (value !== null) jar[name] = value
+  })
+  return jar
+}
+
 export function useCookie<T = string>(
   key: string,
   initialValue: T | null,
   options: UseCookieOptions<T> = {},
-): UseCookiesReturn<T> {
+): UseCookieReturn<T> {
   const isSSR = typeof window === 'undefined'
 
   const {
@@ -32,60 +62,159 @@ export function useCookie<T = string>(
     sameSite = 'lax',
     secure = false,
     maxAge,
+    expires,
+    partitioned,
+    priority,
+    namespace,
+    ssrCookies,
+    integrity,
   } = options
+  // compare dates by time, an inline `new Date()` must not recreate the adapter every render
+  const expiresTime = expires?.getTime()
+  const integrityKey = integrity?.key
+  const integrityMode = integrity?.mode
 
-  const readCookie = () => {
-    if (typeof document === 'undefined') return initialValue
-    const regex = `(^| )${key}=([^;]+)`
-    const match = document.cookie.match(new RegExp(regex))
+  // seals are bound to the full cookie name, a value can not be replayed under another cookie
+  const sealedName = namespacedKey(key, namespace)
+  // values are verified asynchronously, so with a sealer the value starts at initialValue
+  const sealer = useMemo(
+    () =>
+      integrityKey === undefined ? null : createSealer({ key: integrityKey, mode: integrityMode }),
+    [integrityKey, integrityMode],
+  )
+
+  const adapter = useMemo(() => {
+    const attributes: CookieAttributes = {
+      path,
+      domain,
+      sameSite,
+      secure,
+      maxAge,
+      expires: expiresTime === undefined ? undefined : new Date(expiresTime),
+      partitioned,
+      priority,
+    }
+    // a misconfigured cookie would be dropped by the browser without any error
+    validateCookieAttributes(attributes)
+    // set and remove share these attributes, so removal mirrors how the cookie was set
+    return withNamespace(createCookieAdapter(attributes), namespace)
+  }, [path, domain, sameSite, secure, maxAge, expiresTime, partitioned, priority, namespace])
+
+  // every hook bound to the cookie reads one snapshot through the shared cookie adapter,
+  // writes go through the adapter carrying this hook's attributes
+  const store = useMemo(
+    () => getKeyStore(withNamespace(cookieAdapter, namespace), key),
+    [namespace, key],
+  )
+  // request cookies are resolved to the raw value, so the server snapshot stays stable
+  const serverRaw = ssrCookies ? serverCookieAdapter(ssrCookies, namespace).get(key) : null
+  const serverRecord = useMemo<KeyStoreRecord>(
+    () => ({ raw: serverRaw, hasValue: false }),
+    [serverRaw],
+  )
+  const getServerSnapshot = useCallback(() => serverRecord, [serverRecord])
+  const record = useSyncExternalStore(store.subscribe, store.getSnapshot, getServerSnapshot)
 
-    return match ? decode(match[2]) : initialValue
+  const resolveRecord = (from: KeyStoreRecord): T | null => {
+    if (from.hasValue) return from.value === undefined ? initialValue : (from.value as T)
+    // sealed cookies are verified after render, until then the initial value is used
+    if (!from.raw || sealer) return initialValue
+    return decode(from.raw)
   }
 
-  const [value, setValue] = useState<T | null>(() => readCookie())
+  // decoded once per snapshot, decode and initialValue are usually inline
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const value = useMemo(() => resolveRecord(record), [record, sealer])
+  // latest resolver, so functional updates read the value published by earlier calls in the tick
+  const resolveRecordRef = useRef(resolveRecord)
 
-  const writeCookieString = useCallback(
-    (val: T | null) => {
-      // always check if document is available
-      if (typeof document === 'undefined') return
+  useEffect(() => {
+    resolveRecordRef.current = resolveRecord
+  })
 
-      try {
-        // define the cookie
-        let cookie = `${key}=${encode(val)}; path=${path}; SameSite=${sameSite}`
+  const readCookie = (): T | null => {
+    // sealed cookies can not be verified synchronously, return the last verified value
+    if (sealer) return value ?? initialValue
+    if (typeof document === 'undefined') {
+      if (!ssrCookies) return initialValue
+      const raw = serverCookieAdapter(ssrCookies, namespace).get(key)
+      return raw ? decode(raw) : initialValue
+    }
+    const raw = adapter.get(key)
 
-        // check if extra config are available
-        if (domain) cookie += `; domain=${domain}`
-        if (secure) cookie += `; secure`
-        if (maxAge != null) cookie += `; max-age=${maxAge}`
+    return raw ? decode(raw) : initialValue
+  }
 
-        document.cookie = cookie
-      } catch (error) {
-        console.error('Error creating a cookie', error)
-      }
+  const [sealQueue] = useState(createSealQueue)
+
+  useEffect(() => {
+    if (!sealer || typeof document === 'undefined' || record.hasValue || !record.raw) return
+    let cancelled = false
+
+    sealer
+      .open(sealedName, record.raw)
+      .then((opened) => {
+        if (cancelled) return
+        // tampered and unsigned cookies are treated as missing
+        store.resolve(record, { value: opened ? decode(opened) : undefined })
+      })
+      .catch((error) => console.error('Error verifying a cookie', error))
+
+    return () => {
+      cancelled = true
+    }
+    // decode is usually inline, verify once per snapshot instead of every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sealer, store, record])
+
+  const queueSealed = useCallback(
+    (operation: () => Promise<void> | void) => {
+      sealQueue(operation).catch((error) => console.error('Error sealing a cookie', error))
     },
-    [key, encode, path, domain, sameSite, secure, maxAge],
+    [sealQueue],
   )
 
   const setCookie = useCallback(
-    (val: T | null) => {
+    (next: T | null | ((prev: T | null) => T | null)) => {
       if (isSSR) return undefined
+      const val =
+        next instanceof Function ? next(resolveRecordRef.current(store.getSnapshot())) : next
 
-      writeCookieString(val)
-      setValue(val)
+      // the value is published right away, a sealed cookie is written once sealed
+      if (sealer) {
+        store.commit(() => {}, { value: val })
+        queueSealed(async () => {
+          const sealed = await sealer.seal(sealedName, encode(val))
+          store.persist(() => adapter.set(key, sealed))
+        })
+        return
+      }
+
+      try {
+        store.commit(() => adapter.set(key, encode(val)), { value: val })
+      } catch (error) {
+        console.error('Error creating a cookie', error)
+      }
     },
-    [isSSR, writeCookieString],
+    [isSSR, key, sealedName, encode, adapter, store, sealer, queueSealed],
   )
 
   const removeCookie = useCallback(() => {
     if (!key || typeof key === 'undefined') return
 
+    // wait for sealed writes queued before, they would bring the cookie back
+    if (sealer) {
+      store.commit(() => {}, { value: null })
+      queueSealed(() => store.persist(() => adapter.remove(key)))
+      return
+    }
+
     try {
-      document.cookie = `${key}=; path=${path}; expiresAt=Thu, 01 Jan 1970 00:00:00`
-      setValue(null)
+      store.commit(() => adapter.remove(key), { value: null })
     } catch (err) {
       console.error('Error removing key', err)
     }
-  }, [key, path])
+  }, [key, adapter, store, sealer, queueSealed])
 
   return {
     value,
@@ -94,3 +223,137 @@ export function useCookie<T = string>(
     removeCookie,
   }
 }
+
+interface UseCookiesOptions extends CookieAttributes {
+  // only cookies of this namespace are listed, without the prefix
+  namespace?: string
+  // request cookies read on the server, so server and client render the same jar
+  ssrCookies?: CookieSource
+}
+
+interface UseCookiesReturn<T extends Record<keyof T, string>> {
+  cookies: Partial<T>
+  get: <K extends keyof T & string>(name: K) => T[K] | undefined
+  set: <K extends keyof T & string>(name: K, value: T[K], attributes?: CookieAttributes) => void
+  remove: (name: keyof T & string, attributes?: CookieAttributes) => void
+  // null removes a cookie, every other value is written
+  update: (changes: { [K in keyof T]?: T[K] | null }, attributes?: CookieAttributes) => void
+  refresh: () => void
+}
+
+/**
+ * useCookies:
+ *
+ * The whole cookie jar as a record. The jar is re-read after every write made through the
+ * cookie hooks, and on Cookie Store API `change` events when the browser supports them.
+ * The options are the default attributes for writes, each call can override them.
+ */
+export function useCookies<T extends Record<keyof T, string> = Record<string, string>>(
+  options: UseCookiesOptions = {},
+): UseCookiesReturn<T> {
+  const {
+    path = '/',
+    domain,
+    sameSite = 'lax',
+    secure = false,
+    maxAge,
+    expires,
+    partitioned,
+    priority,
+    namespace,
+    ssrCookies,
+  } = options
+  const expiresTime = expires?.getTime()
+
+  const defaultAttributes = useMemo(() => {
+    const attributes: CookieAttributes = {
+      path,
+      domain,
+      sameSite,
+      secure,
+      maxAge,
+      expires: expiresTime === undefined ? undefined : new Date(expiresTime),
+      partitioned,
+      priority,
+    }
+    validateCookieAttributes(attributes)
+    return attributes
+  }, [path, domain, sameSite, secure, maxAge, expiresTime, partitioned, priority])
+
+  const adapterFor = useCallback(
+    (attributes?: CookieAttributes) =>
+      withNamespace(createCookieAdapter({ ...defaultAttributes, ...attributes }), namespace),
+    [defaultAttributes, namespace],
+  )
+
+  const adapter = useMemo(() => adapterFor(), [adapterFor])
+
+  const readCookies = useCallback((): Partial<T> => {
+    if (typeof document === 'undefined') {
+      return ssrCookies ? (readJar(serverCookieAdapter(ssrCookies, namespace)) as Partial<T>) : {}
+    }
+    return readJar(adapter) as Partial<T>
+  }, [adapter, ssrCookies, namespace])
+
+  const [cookies, setCookies] = useState<Partial<T>>(readCookies)
+
+  const refresh = useCallback(() => {
+    setCookies(readCookies())
+  }, [readCookies])
+
+  useEffect(() => {
+    if (typeof document === 'undefined') return
+    return adapter.subscribe(() => refresh())
+  }, [adapter, refresh])
+
+  const get = useCallback(
+    <K extends keyof T & string>(name: K): T[K] | undefined => cookies[name],
+    [cookies],
+  )
+
+  // the jar is always re-read afterwards, the browser may reject or expire a cookie
+  const write = useCallback(
+    (changes: Record<string, string | null | undefined>, attributes?: CookieAttributes) => {
+      if (typeof document === 'undefined') return
+
+      const target = adapterFor(attributes)
+      Object.entries(changes).forEach(([name, value]) => {
+        if (value === undefined) return
+        try {
+          if (value === null) target.remove(name)
+          else target.set(name, value)
+        } catch (error) {
+          console.error('Error writing cookie', error)
+        }
+      })
+      refresh()
+    },
+    [adapterFor, refresh],
+  )
+
+  const set = useCallback(
+    <K extends keyof T & string>(name: K, value: T[K], attributes?: CookieAttributes) =>
+      write({ [name]: value }, attributes),
+    [write],
+  )
+
+  const remove = useCallback(
+    (name: keyof T & string, attributes?: CookieAttributes) => write({ [name]: null }, attributes),
+    [write],
+  )
+
+  const update = useCallback(
+    (changes: { [K in keyof T]?: T[K] | null }, attributes?: CookieAttributes) =>
+      write(changes as Record<string, string | null | undefined>, attributes),
+    [write],
+  )
+
+  return {
+    cookies,
+    get,
+    set,
+    remove,
+    update,
+    refresh,
+  }
+}
@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { isSSR } from '../../helpers/is-ssr'
+import { idbDelete, idbGet, idbSet, isIndexedDBSupported } from '../../utils/storage/indexed-db'
+
+/**
+ * useIndexedDB:
+ *
+ * Persistent state backed by IndexedDB. Reads and writes are asynchronous, so the hook
+ * starts with `initialValue` and reports `isLoading` until the stored value is hydrated.
+ * Values are stored with the structured clone algorithm, Date, Map, Set and Blob survive as is.
+ */
+
+interface UseIndexedDBOptions {
+  dbName?: string
+  storeName?: string
+}
+
+interface UseIndexedDBReturn<T> {
+  storedValue: T
+  setValue: (value: T | ((prev: T) => T)) => Promise<void>
+  removeValue: () => Promise<void>
+  isLoading: boolean
+  error: Error | null
+  isSupported: boolean
+}
+
+const DEFAULT_DB_NAME = 'garuda-hooks'
+const DEFAULT_STORE_NAME = 'keyval'
+
+export function useIndexedDB<T>(
+  key: string,
+  initialValue: T,
+  options: UseIndexedDBOptions = {},
+): UseIndexedDBReturn<T> {
+  const { dbName = DEFAULT_DB_NAME, storeName = DEFAULT_STORE_NAME } = options
+  const isSupported = !isSSR && isIndexedDBSupported()
+
+  const [storedValue, setStoredValue] = useState<T>(initialValue)
+  const [isLoading, setIsLoading] = useState<boolean>(isSupported)
+  const [error, setError] = useState<Error | null>(null)
+
+  // latest value, so functional updates chain correctly while writes are in flight
+  const storedValueRef = useRef<T>(initialValue)
+  // read by the hydration effect, an inline initial value must not refetch every render
+  const initialValueRef = useRef<T>(initialValue)
+  // set once the user writes, a late hydration must not overwrite a newer value
+  const hasWrittenRef = useRef(false)
+
+  useEffect(() => {
+    initialValueRef.current = initialValue
+  }, [initialValue])
+
+  useEffect(() => {
+    if (!isSupported) return
+    let cancelled = false
+    hasWrittenRef.current = false
+    // a different key starts over, its record may not exist
+    storedValueRef.current = initialValueRef.current
+    setStoredValue(initialValueRef.current)
+    setIsLoading(true)
+
+    idbGet<T>(dbName, storeName, key)
+      .then((value) => {
+        if (cancelled || hasWrittenRef.current) return
+        if (value !== undefined) {
+          storedValueRef.current = value
+          setStoredValue(value)
+        }
+        setError(null)
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return
+        setError(err instanceof Error ? err : new Error(String(err)))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isSupported, dbName, storeName, key])
+
+  const setValue = useCallback(
+    async (value: T | ((prev: T) => T)) => {
+      if (!key) throw new Error('Key is required')
+
+      const valueToStore = value instanceof Function ? value(storedValueRef.current) : value
+      storedValueRef.current = valueToStore
+      hasWrittenRef.current = true
+      setStoredValue(valueToStore)
+
+      if (!isSupported) return
+
+      try {
+        await idbSet(dbName, storeName, key, valueToStore)
+        setError(null)
+      } catch (err) {
+        console.error('useIndexedDB: failed to store value', err)
+        setError(err instanceof Error ? err : new Error(String(err)))
+      }
+    },
+    [isSupported, dbName, storeName, key],
+  )
+
+  const removeValue = useCallback(async () => {
+    if (!key) throw new Error('Key is required')
+
+    storedValueRef.current = initialValue
+    hasWrittenRef.current = true
+    setStoredValue(initialValue)
+
+    if (!isSupported) return
+
+    try {
+      await idbDelete(dbName, storeName, key)
+      setError(null)
+    } catch (err) {
+      console.error('useIndexedDB: failed to remove value', err)
+      setError(err instanceof Error ? err : new Error(String(err)))
+    }
+  }, [isSupported, dbName, storeName, key, initialValue])
+
+  return {
+    storedValue,
+    setValue,
+    removeValue,
+    isLoading,
+    error,
+    isSupported,
+  }
+}
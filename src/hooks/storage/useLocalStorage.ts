@@ -1,31 +1,279 @@
 /* eslint-disable react-hooks/exhaustive-deps */
-import { useState, useCallback } from 'react'
-import { STORAGE_ENV, storageEnv } from '../../utils/storage/storage-env'
+import { useState, useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { STORAGE_ENV, storageAdapter } from '../../utils/storage/storage-env'
+import { StorageAdapter, localStorageAdapter } from '../../utils/storage/storage-adapter'
+import { StorageError, toStorageError } from '../../utils/storage/storage-error'
+import { EvictionOptions, setWithEviction, touchKey } from '../../utils/storage/eviction'
+import { namespacedKey, withNamespace } from '../../utils/storage/namespace'
+import {
+  IntegrityOptions,
+  Sealer,
+  createSealQueue,
+  createSealer,
+} from '../../utils/storage/integrity'
+import { KeyStoreRecord, getKeyStore, getServerRecord } from '../../utils/storage/key-store'
+import {
+  ReadEntryOptions,
+  ResolvedState,
+  StoredEntry,
+  StoredState,
+  isExpired,
+  isStoredPayload,
+  readStoredEntry,
+  resolveEntry,
+  resolveStoredRecord,
+  scheduleExpiry,
+  toStoredPayload,
+} from '../../utils/storage/stored-payload'
+
+interface UseLocalStorageOptions<T> extends ReadEntryOptions<T> {
+  serialize?: (value: T) => string
+  deserialize?: (raw: string) => T
+  // ttl in ms used by setValueWithTTL when no ttl is passed
+  defaultTTL?: number
+  // backend to persist to, defaults to window.localStorage
+  adapter?: StorageAdapter
+  // stores the value under `<namespace>:<key>`
+  namespace?: string
+  onQuotaExceeded?: (error: StorageError) => void
+  // called with every other failed write instead of logging it
+  onError?: (error: StorageError) => void
+  // evict the least recently used keys under a prefix when the quota is exceeded
+  eviction?: EvictionOptions
+  // sign (or encrypt) stored values, values that fail verification are treated as missing
+  integrity?: IntegrityOptions
+}
 
 interface UseLocalStorageReturn<T> {
   storedValue: T
   setValue: (value: T | ((prev: T) => T)) => void
   removeValue: () => void
+  setValueWithTTL: (value: T | ((prev: T) => T), ttl?: number) => void
   getStoredValue: (whichStorage?: STORAGE_ENV) => T | undefined
   isSSR: boolean
   searchValue: (search: string, whichStorage?: STORAGE_ENV) => T[] | undefined
+  // last failed write, cleared by the next successful one
+  error: StorageError | null
 }
 
+// module level so the defaults keep a stable identity between renders
+const defaultSerialize = (value: unknown) => JSON.stringify(value)
+const defaultDeserialize = (raw: string) => JSON.parse(raw)
+
 // T can be any type but explicitly added to avoid type inference issues
-export function useLocalStorage<T>(key: string, initialValue: T): UseLocalStorageReturn<T> {
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T,
+  options: UseLocalStorageOptions<T> = {},
+): UseLocalStorageReturn<T> {
   const isSSR = typeof window === 'undefined' || !window
 
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    // always check if the window is available or opened
-    if (isSSR) return initialValue
+  const {
+    serialize = defaultSerialize as (value: T) => string,
+    deserialize = defaultDeserialize as (raw: string) => T,
+    validate,
+    version,
+    migrate,
+    defaultTTL,
+    adapter: baseAdapter = localStorageAdapter,
+    namespace,
+    onQuotaExceeded,
+    onError,
+    eviction,
+    integrity,
+  } = options
+  const adapter = useMemo(() => withNamespace(baseAdapter, namespace), [baseAdapter, namespace])
+  // depend on the prefix only, the options object is usually recreated every render
+  const evictionPrefix = eviction?.prefix
+  const integrityKey = integrity?.key
+  const integrityMode = integrity?.mode
+
+  // values are verified asynchronously, so with a sealer the value starts at initialValue
+  const sealer = useMemo(
+    () =>
+      integrityKey === undefined ? null : createSealer({ key: integrityKey, mode: integrityMode }),
+    [integrityKey, integrityMode],
+  )
+
+  // splits a raw item into the serialized value and the metadata it was written with.
+  // values written without the (tagged) wrapper are returned as is, whatever their shape
+  const unwrapItem = useCallback((item: string): { raw: string } & Omit<StoredEntry, 'value'> => {
     try {
-      const item = window?.localStorage.getItem(key)
-      return item ? (JSON.parse(item) as T) : initialValue
-    } catch (error) {
-      console.error(error)
-      return initialValue
+      const parsed = JSON.parse(item) as unknown
+      if (isStoredPayload(parsed) && typeof parsed.value === 'string') {
+        return { raw: parsed.value, version: parsed.version, expiresAt: parsed.expiresAt ?? null }
+      }
+    } catch {
+      // not JSON, written by a custom serializer without the wrapper
+    }
+    return { raw: item, expiresAt: null }
+  }, [])
+
+  const decodeItem = useCallback(
+    (item: string): StoredEntry => {
+      const { raw, ...meta } = unwrapItem(item)
+      return { ...meta, value: deserialize(raw) }
+    },
+    [unwrapItem, deserialize],
+  )
+
+  const encodeItem = useCallback(
+    (value: T, expiresAt: number | null = null): string => {
+      if (version === undefined && expiresAt === null) return serialize(value)
+      return JSON.stringify(toStoredPayload({ value: serialize(value), expiresAt, version }))
+    },
+    [serialize, version],
+  )
+
+  // undefined means the item is missing, expired, failed validation or could not be migrated
+  const readItem = useCallback(
+    (from: StorageAdapter) =>
+      readStoredEntry(from, key, decodeItem, { version, migrate, validate }),
+    [key, decodeItem, version, migrate, validate],
+  )
+
+  // every hook bound to the same key reads one snapshot, so they never disagree
+  const store = useMemo(() => getKeyStore(adapter, key), [adapter, key])
+  const record = useSyncExternalStore(store.subscribe, store.getSnapshot, getServerRecord)
+  const [initialState] = useState<StoredState<T>>(() => ({ value: initialValue, expiresAt: null }))
+  const [error, setError] = useState<StorageError | null>(null)
+  const [sealQueue] = useState(createSealQueue)
+
+  // `item` is the opened item when a sealer is set
+  const parseItem = useCallback(
+    (item: string): ResolvedState<StoredState<T>> => {
+      try {
+        const entry = decodeItem(item)
+        if (isExpired(entry.expiresAt)) return { ...initialState, expired: true }
+        const parsed = resolveEntry(entry, { version, migrate, validate })
+        if (!parsed) return initialState
+        return { value: parsed.value, expiresAt: parsed.expiresAt, migrated: parsed.migrated }
+      } catch (error) {
+        console.error(error)
+        return initialState
+      }
+    },
+    [decodeItem, version, migrate, validate, initialState],
+  )
+
+  // sealed values are verified after render, until then the initial value is used
+  const resolveRecord = useCallback(
+    (from: KeyStoreRecord) => resolveStoredRecord(from, initialState, sealer ? null : parseItem),
+    [initialState, sealer, parseItem],
+  )
+
+  // decoded once per snapshot, options are read again when the stored value changes
+  const state = useMemo(() => resolveRecord(record), [record, sealer])
+
+  // storage failures are reported on the result instead of crashing the render tree
+  const reportError = useCallback(
+    (err: unknown) => {
+      const storageError = toStorageError(err, key)
+      setError(storageError)
+      if (storageError.type === 'quota-exceeded' && onQuotaExceeded) {
+        onQuotaExceeded(storageError)
+      } else if (onError) {
+        onError(storageError)
+      } else {
+        console.error('useLocalStorage: failed to store value', storageError)
+      }
+    },
+    [key, onQuotaExceeded, onError],
+  )
+
+  const writeItem = useCallback(
+    (item: string) =>
+      setWithEviction(
+        adapter,
+        key,
+        item,
+        evictionPrefix === undefined ? undefined : { prefix: evictionPrefix },
+      ),
+    [adapter, key, evictionPrefix],
+  )
+
+  // sealed operations wait for the ones queued before them
+  const queueSealed = useCallback(
+    (operation: (from: Sealer) => Promise<void> | void) => {
+      if (!sealer) return
+      sealQueue(() => operation(sealer)).catch((err) => {
+        setError(toStorageError(err, key))
+        console.error('useLocalStorage: failed to seal value', err)
+      })
+    },
+    [sealer, sealQueue, key],
+  )
+
+  // publishes the value right away, sealed values are persisted once sealed
+  const storeState = useCallback(
+    (next: StoredState<T>) => {
+      const item = encodeItem(next.value, next.expiresAt)
+      const persist = (stored: string) => {
+        try {
+          if (sealer) store.persist(() => writeItem(stored))
+          else store.commit(() => writeItem(stored), { value: next })
+          setError(null)
+        } catch (err) {
+          reportError(err)
+        }
+      }
+
+      if (!sealer) {
+        persist(item)
+        return
+      }
+      store.commit(() => {}, { value: next })
+      queueSealed(async (from) => persist(await from.seal(namespacedKey(key, namespace), item)))
+    },
+    [store, sealer, encodeItem, writeItem, queueSealed, reportError],
+  )
+
+  const deleteState = useCallback(() => {
+    if (!sealer) {
+      store.commit(() => adapter.remove(key))
+      return
     }
-  })
+    store.commit(() => {}, { value: undefined })
+    queueSealed(() => store.persist(() => adapter.remove(key)))
+  }, [store, sealer, adapter, key, queueSealed])
+
+  // expired entries are removed and migrated ones persisted by the first hook reading them
+  useEffect(() => {
+    if (isSSR) return
+    if (state.expired) deleteState()
+    else if (state.migrated) storeState({ value: state.value, expiresAt: state.expiresAt })
+    else if (evictionPrefix !== undefined && state !== initialState) {
+      touchKey(adapter, key, { prefix: evictionPrefix })
+    }
+  }, [state])
+
+  // sealed values can only be verified after render
+  useEffect(() => {
+    if (isSSR || !sealer || record.hasValue || record.raw === null) return
+
+    let cancelled = false
+    sealer
+      .open(namespacedKey(key, namespace), record.raw)
+      .then((opened) => {
+        if (cancelled) return
+        const next: ResolvedState<StoredState<T>> =
+          opened === null ? initialState : parseItem(opened)
+        if (next.expired) deleteState()
+        else if (next.migrated) storeState({ value: next.value, expiresAt: next.expiresAt })
+        else store.resolve(record, { value: next === initialState ? undefined : next })
+      })
+      .catch((error) => console.error(error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [record, sealer])
+
+  // latest value, so functional updates can be resolved outside of a render
+  const currentValue = useCallback(
+    () => resolveRecord(store.getSnapshot()).value,
+    [store, resolveRecord],
+  )
 
   const setValue = useCallback(
     (value: T | ((prev: T) => T)) => {
@@ -35,50 +283,70 @@ export function useLocalStorage<T>(key: string, initialValue: T): UseLocalStorag
         // check if value is provided
         if (typeof value === 'undefined') throw new Error('Value is required')
 
-        setStoredValue((prev) => {
-          const valueToStore = value instanceof Function ? value(prev) : value
-          if (!isSSR) {
-            window.localStorage.setItem(key, JSON.stringify(valueToStore))
-          }
-          return valueToStore
-        })
+        const valueToStore = value instanceof Function ? value(currentValue()) : value
+        if (!isSSR) storeState({ value: valueToStore, expiresAt: null })
+      } catch (error) {
+        throw new Error(`Unexpected error. Please try again: ${error}`)
+      }
+    },
+    [key, currentValue, storeState],
+  )
+
+  const setValueWithTTL = useCallback(
+    (value: T | ((prev: T) => T), overrideTtl?: number) => {
+      try {
+        const ttl = overrideTtl ?? defaultTTL
+        if (!key || typeof key === 'undefined') throw new Error('Key is required')
+        if (typeof value === 'undefined') throw new Error('Value is required')
+        if (typeof ttl !== 'number' || Number.isNaN(ttl)) throw new Error('ttl must be a number')
+
+        const valueToStore = value instanceof Function ? value(currentValue()) : value
+        if (!isSSR) storeState({ value: valueToStore, expiresAt: Date.now() + ttl })
       } catch (error) {
         throw new Error(`Unexpected error. Please try again: ${error}`)
       }
     },
-    [key],
+    [key, defaultTTL, currentValue, storeState],
   )
 
   const removeValue = useCallback(() => {
     try {
       if (!key || typeof key === 'undefined') throw new Error('Key is required')
-      if (isSSR) {
-        // update the cached stored value with the initial value
-        setStoredValue(initialValue)
-        return
-      }
-      window.localStorage.removeItem(key)
-      setStoredValue(initialValue)
+      if (!isSSR) deleteState()
     } catch (error) {
       throw new Error(`Unexpected error. Please try again: ${error}`)
     }
-  }, [key, initialValue])
+  }, [key, deleteState])
+
+  // scheduleCleanup: drop the value once its TTL elapses
+  useEffect(() => {
+    const { expiresAt } = state
+    if (isSSR || expiresAt === null) return
+
+    // read the store again, the expiry may have been pushed forward since
+    return scheduleExpiry(expiresAt, () => {
+      if (resolveRecord(store.getSnapshot()).expired) deleteState()
+    })
+  }, [state.expiresAt, store, resolveRecord, deleteState])
 
   // getting the stored value
   const getStoredValue = useCallback(
     (whichStorage?: STORAGE_ENV) => {
       try {
         if (!key || typeof key === 'undefined') throw new Error('Key is required')
+        // sealed values are only verified asynchronously, return the last verified one
+        if (sealer) return whichStorage ? undefined : currentValue()
         if (!isSSR) {
-          const item = storageEnv(whichStorage || STORAGE_ENV.LOCAL_STORAGE)?.getItem(key)
-          return item ? (JSON.parse(item) as T) : undefined
+          return readItem(
+            whichStorage ? withNamespace(storageAdapter(whichStorage), namespace) : adapter,
+          )?.value
         }
         return undefined
       } catch (error) {
         throw new Error(`Unexpected error. Please try again: ${error}`)
       }
     },
-    [key],
+    [key, adapter, namespace, readItem, sealer, currentValue],
   )
 
   // searching for values in the localStorage, case insensitive since we automatically convert the search to lowercase along with the items
@@ -87,20 +355,39 @@ export function useLocalStorage<T>(key: string, initialValue: T): UseLocalStorag
       try {
         if (!search || typeof search === 'undefined') throw new Error('Search is required')
         if (isSSR) return [] as T[]
-        const items = storageEnv(whichStorage || STORAGE_ENV.LOCAL_STORAGE)?.getItem(key)
-        if (items && typeof items === 'string') {
-          const itemsArray = JSON.parse(items) as T[]
-          return itemsArray.filter((item) =>
+        const matches = (itemsArray: T[]) =>
+          itemsArray.filter((item) =>
             item?.toString().toLowerCase().includes(search.toLowerCase()),
           ) as T[]
+
+        // sealed values are only verified asynchronously, search the last verified one
+        if (sealer) {
+          const verified = whichStorage ? [] : currentValue()
+          return Array.isArray(verified) ? matches(verified) : ([] as T[])
+        }
+
+        const items = (
+          whichStorage ? withNamespace(storageAdapter(whichStorage), namespace) : adapter
+        ).get(key)
+        if (items && typeof items === 'string') {
+          return matches(deserialize(unwrapItem(items).raw) as unknown as T[])
         }
         return [] as T[]
       } catch (error) {
         throw new Error(`Unexpected error. Please try again: ${error}`)
       }
     },
-    [key],
+    [key, adapter, namespace, deserialize, unwrapItem, sealer, currentValue],
   )
 
-  return { storedValue, setValue, removeValue, getStoredValue, isSSR, searchValue }
+  return {
+    storedValue: state.value,
+    setValue,
+    removeValue,
+    setValueWithTTL,
+    getStoredValue,
+    isSSR,
+    searchValue,
+    error,
+  }
 }
@@ -0,0 +1,310 @@
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
+import { useLocalStorage } from './useLocalStorage'
+import { useNetwork } from '../browser/useNetwork'
+import { STORAGE_ENV, storageAdapter } from '../../utils/storage/storage-env'
+import { StorageAdapter } from '../../utils/storage/storage-adapter'
+import { StorageError } from '../../utils/storage/storage-error'
+import { namespacedKey, withNamespace } from '../../utils/storage/namespace'
+import { getKeyStore } from '../../utils/storage/key-store'
+import { StoredState } from '../../utils/storage/stored-payload'
+import { withTabLock } from '../../utils/storage/tab-lock'
+
+/**
+ * usePersistentQueue:
+ *
+ * Offline write queue. Mutations are appended to storage and flushed in order through `sync`
+ * whenever the app is online, so edits made offline survive reloads and reach the server once
+ * connectivity returns. Failed syncs are retried with exponential backoff, mutations that keep
+ * failing are moved to a dead-letter list.
+ */
+
+export type QueuedMutation<T> = {
+  id: string
+  payload: T
+  // failed sync attempts so far
+  attempts: number
+  createdAt: number
+  // earliest time of the next automatic attempt, set after a failure
+  retryAt?: number
+  // message of the last failure
+  lastError?: string
+}
+
+type QueueState<T> = {
+  pending: QueuedMutation<T>[]
+  deadLetters: QueuedMutation<T>[]
+}
+
+interface UsePersistentQueueOptions<T> {
+  // backend the queue is persisted to, defaults to localStorage
+  storage?: STORAGE_ENV | StorageAdapter
+  // stores the queue under `<namespace>:<key>`
+  namespace?: string
+  // attempts before a mutation is moved to the dead-letter list
+  maxAttempts?: number
+  // delay before the first retry in ms, doubled after every failure
+  retryDelay?: number
+  maxRetryDelay?: number
+  onDeadLetter?: (mutation: QueuedMutation<T>, error: unknown) => void
+}
+
+interface UsePersistentQueueReturn<T> {
+  pending: QueuedMutation<T>[]
+  deadLetters: QueuedMutation<T>[]
+  isOnline: boolean
+  isFlushing: boolean
+  enqueue: (payload: T) => QueuedMutation<T>
+  // syncs the pending mutations now, ignoring the backoff
+  flush: () => Promise<void>
+  // moves the dead letters back to the queue with their attempts reset
+  retryDeadLetters: () => void
+  clearDeadLetters: () => void
+  // last failed write of the queue itself
+  error: StorageError | null
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_RETRY_DELAY = 1000
+const DEFAULT_MAX_RETRY_DELAY = 60000
+
+// module level so the initial value keeps a stable identity between renders
+const EMPTY_QUEUE: QueueState<never> = { pending: [], deadLetters: [] }
+
+type ActiveFlush = {
+  // another flush was requested meanwhile, the queue is drained again once this round is done
+  requested: boolean
+  ignoreBackoff: boolean
+}
+
+// queues being flushed, so two hooks bound to the same queue never sync a mutation twice
+const activeFlushes = new WeakMap<StorageAdapter, Map<string, ActiveFlush>>()
+
+const isOnlineNow = () => typeof navigator === 'undefined' || navigator.onLine
+
+const createId = () =>
+  globalThis.crypto?.randomUUID?.() ??
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+export function usePersistentQueue<T>(
+  key: string,
+  sync: (payload: T, mutation: QueuedMutation<T>) => Promise<void>,
+  options: UsePersistentQueueOptions<T> = {},
+): UsePersistentQueueReturn<T> {
+  const {
+    storage = STORAGE_ENV.LOCAL_STORAGE,
+    namespace,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+    onDeadLetter,
+  } = options
+
+  const adapter = storageAdapter(storage)
+  // set when a write of the queue fails, the flush loop stops instead of running ahead of storage
+  const writeFailedRef = useRef(false)
+  const handleWriteError = useCallback(() => {
+    writeFailedRef.current = true
+  }, [])
+  const { storedValue, setValue, getStoredValue, error } = useLocalStorage<QueueState<T>>(
+    key,
+    EMPTY_QUEUE,
+    { adapter, namespace, onQuotaExceeded: handleWriteError, onError: handleWriteError },
+  )
+  const store = useMemo(
+    () => getKeyStore(withNamespace(adapter, namespace), key),
+    [adapter, namespace, key],
+  )
+  const { isOnline } = useNetwork()
+  const [isFlushing, setIsFlushing] = useState(false)
+
+  // latest callbacks, so an inline `sync` does not restart the flush every render
+  const syncRef = useRef(sync)
+  const onDeadLetterRef = useRef(onDeadLetter)
+  const mountedRef = useRef(false)
+
+  useEffect(() => {
+    syncRef.current = sync
+    onDeadLetterRef.current = onDeadLetter
+  }, [sync, onDeadLetter])
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => {
+      mountedRef.current = false
+    }
+  }, [])
+
+  // reads the published queue, the flush loop runs across renders. writes are published even when
+  // storage rejects them, so mutations queued while storage is full or unavailable are synced too
+  const readQueue = useCallback((): QueueState<T> => {
+    const record = store.getSnapshot()
+    if (!record.hasValue) return getStoredValue() ?? EMPTY_QUEUE
+    return (record.value as StoredState<QueueState<T>> | undefined)?.value ?? EMPTY_QUEUE
+  }, [store, getStoredValue])
+
+  // applies `update` to the queue, false when storage rejected the write
+  const writeQueue = useCallback(
+    (update: (prev: QueueState<T>) => QueueState<T>) => {
+      writeFailedRef.current = false
+      setValue(update)
+      return !writeFailedRef.current
+    },
+    [setValue],
+  )
+
+  const backoff = useCallback(
+    (attempts: number) => Math.min(retryDelay * 2 ** (attempts - 1), maxRetryDelay),
+    [retryDelay, maxRetryDelay],
+  )
+
+  const runFlush = useCallback(
+    async (ignoreBackoff: boolean) => {
+      const namespaced = withNamespace(adapter, namespace)
+      let active = activeFlushes.get(namespaced)
+      if (!active) {
+        active = new Map()
+        activeFlushes.set(namespaced, active)
+      }
+      const running = active.get(key)
+      if (running) {
+        // the running flush may be past its last read of the queue
+        running.requested = true
+        running.ignoreBackoff ||= ignoreBackoff
+        return
+      }
+
+      const flush: ActiveFlush = { requested: true, ignoreBackoff }
+      active.set(key, flush)
+      setIsFlushing(true)
+      // mutations are synced one by one and in order, a failing one blocks the ones after it
+      const drain = async () => {
+        const skipBackoff = flush.ignoreBackoff
+        flush.ignoreBackoff = false
+
+        while (mountedRef.current && isOnlineNow()) {
+          const head = readQueue().pending[0]
+          if (!head) break
+          if (!skipBackoff && head.retryAt !== undefined && head.retryAt > Date.now()) break
+
+          try {
+            await syncRef.current(head.payload, head)
+            const removed = writeQueue((prev) => ({
+              ...prev,
+              pending: prev.pending.filter((mutation) => mutation.id !== head.id),
+            }))
+            // the synced mutation is still stored, stop before storage falls further behind
+            if (!removed) break
+            continue
+          } catch (err) {
+            // the connection dropped during the sync, it is not the mutation's fault
+            if (!isOnlineNow()) break
+
+            const attempts = head.attempts + 1
+            const failed: QueuedMutation<T> = { ...head, attempts, lastError: errorMessage(err) }
+
+            if (attempts >= maxAttempts) {
+              delete failed.retryAt
+              const moved = writeQueue((prev) => ({
+                pending: prev.pending.filter((mutation) => mutation.id !== head.id),
+                deadLetters: [...prev.deadLetters, failed],
+              }))
+              onDeadLetterRef.current?.(failed, err)
+              if (!moved) break
+              continue
+            }
+
+            failed.retryAt = Date.now() + backoff(attempts)
+            writeQueue((prev) => ({
+              ...prev,
+              pending: prev.pending.map((mutation) =>
+                mutation.id === head.id ? failed : mutation,
+              ),
+            }))
+            break
+          }
+        }
+      }
+
+      try {
+        while (flush.requested && mountedRef.current) {
+          flush.requested = false
+          // other tabs share the queue through storage, only one of them syncs it at a time
+          await withTabLock(
+            namespacedKey(key, namespace),
+            adapter,
+            drain,
+            () => mountedRef.current && isOnlineNow(),
+          )
+        }
+      } finally {
+        active.delete(key)
+        if (mountedRef.current) setIsFlushing(false)
+      }
+    },
+    [key, adapter, namespace, readQueue, writeQueue, maxAttempts, backoff],
+  )
+
+  const flush = useCallback(() => runFlush(true), [runFlush])
+
+  const enqueue = useCallback(
+    (payload: T) => {
+      const mutation: QueuedMutation<T> = {
+        id: createId(),
+        payload,
+        attempts: 0,
+        createdAt: Date.now(),
+      }
+      setValue((prev) => ({ ...prev, pending: [...prev.pending, mutation] }))
+      return mutation
+    },
+    [setValue],
+  )
+
+  const retryDeadLetters = useCallback(() => {
+    setValue((prev) => ({
+      pending: [
+        ...prev.pending,
+        // lastError is kept, it explains why the mutation was dead-lettered
+        ...prev.deadLetters.map((mutation) => ({ ...mutation, attempts: 0 })),
+      ],
+      deadLetters: [],
+    }))
+  }, [setValue])
+
+  const clearDeadLetters = useCallback(() => {
+    setValue((prev) => ({ ...prev, deadLetters: [] }))
+  }, [setValue])
+
+  // connectivity came back, retry right away instead of waiting for the backoff
+  useEffect(() => {
+    if (isOnline) void runFlush(true)
+  }, [isOnline, runFlush])
+
+  // new mutations are synced as soon as they are queued while online
+  const pendingCount = storedValue.pending.length
+  useEffect(() => {
+    if (isOnline && pendingCount > 0) void runFlush(false)
+  }, [isOnline, pendingCount, runFlush])
+
+  // retry the failed head once its backoff elapses
+  const nextRetryAt = storedValue.pending[0]?.retryAt
+  useEffect(() => {
+    if (!isOnline || nextRetryAt === undefined) return
+    const retryTimer = setTimeout(() => void runFlush(false), Math.max(0, nextRetryAt - Date.now()))
+    return () => clearTimeout(retryTimer)
+  }, [isOnline, nextRetryAt, runFlush])
+
+  return {
+    pending: storedValue.pending,
+    deadLetters: storedValue.deadLetters,
+    isOnline,
+    isFlushing,
+    enqueue,
+    flush,
+    retryDeadLetters,
+    clearDeadLetters,
+    error,
+  }
+}
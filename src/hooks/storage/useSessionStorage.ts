@@ -1,5 +1,29 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
-import { STORAGE_ENV, storageEnv } from '../../utils/storage/storage-env'
+import { useState, useCallback, useRef, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { StorageAdapter, sessionStorageAdapter } from '../../utils/storage/storage-adapter'
+import { StorageError, toStorageError } from '../../utils/storage/storage-error'
+import { EvictionOptions, setWithEviction } from '../../utils/storage/eviction'
+import { withNamespace } from '../../utils/storage/namespace'
+import {
+  KeyStore,
+  KeyStoreRecord,
+  getKeyStore,
+  getServerRecord,
+} from '../../utils/storage/key-store'
+import {
+  ReadEntryResult,
+  ResolvedState,
+  StoredEntry,
+  StoredPayload,
+  StoredState,
+  VersionOptions,
+  isExpired,
+  isStoredPayload,
+  readStoredEntry,
+  resolveEntry,
+  resolveStoredRecord,
+  scheduleExpiry,
+  toStoredPayload,
+} from '../../utils/storage/stored-payload'
 
 /**
  *
@@ -11,13 +35,56 @@ interface UseSessionStorageReturn<T> {
   storedValue: T
   setValue: (value: T | ((prev: T) => T)) => void
   removeValue: () => void
-  setValueWithTTL: (value: T, ttl: number) => void
+  setValueWithTTL: (value: T | ((prev: T) => T), ttl?: number) => void
   getStoredValue: () => NonNullable<T> | T | undefined
+  // last failed write, cleared by the next successful one
+  error: StorageError | null
 }
 
-type StoredPayload<T> = {
-  value: T
-  expiresAt: number | null
+interface UseSessionStorageOptions<T> extends VersionOptions<T> {
+  defaultTTL?: number
+  // backend to persist to, defaults to window.sessionStorage
+  adapter?: StorageAdapter
+  // stores the value under `<namespace>:<key>`
+  namespace?: string
+  onQuotaExceeded?: (error: StorageError) => void
+  // evict the least recently used keys under a prefix when the quota is exceeded
+  eviction?: EvictionOptions
+  // every read or write pushes the expiry forward by the ttl instead of keeping it absolute
+  sliding?: boolean
+  // called with the expired value once the state is reset to initialValue
+  onExpire?: (expiredValue: T) => void
+}
+
+type SessionState<T> = StoredState<T> & {
+  // ttl the expiry was computed from, null when the entry does not expire
+  ttl: number | null
+}
+
+const UNTAGGED_PAYLOAD_KEYS = ['value', 'expiresAt', 'version', 'ttl']
+
+// this hook wrapped every value before the wrapper was tagged, so an untagged object with
+// `value` and `expiresAt` (and nothing else) is one of those wrappers
+const isUntaggedPayload = (parsed: unknown): parsed is Omit<StoredPayload<unknown>, '__garuda'> =>
+  !!parsed &&
+  typeof parsed === 'object' &&
+  !Array.isArray(parsed) &&
+  'value' in parsed &&
+  'expiresAt' in parsed &&
+  Object.keys(parsed).every((field) => UNTAGGED_PAYLOAD_KEYS.includes(field))
+
+// the value is embedded as is, unlike useLocalStorage there is no custom serializer
+const decodeItem = (item: string): StoredEntry => {
+  const parsed = JSON.parse(item) as unknown
+  if (isStoredPayload(parsed) || isUntaggedPayload(parsed)) {
+    return {
+      value: parsed.value,
+      expiresAt: parsed.expiresAt ?? null,
+      version: parsed.version,
+      ttl: parsed.ttl,
+    }
+  }
+  return { value: parsed, expiresAt: null }
 }
 
 /**
@@ -25,114 +92,210 @@ type StoredPayload<T> = {
  * @param key
  *
  * @param initialValue
+ * @param options default TTL in ms, or an options object with `defaultTTL`, `version` and `migrate`
  * @returns T in tuple or object or undefine
  */
 
 export function useSessionStorage<T>(
   key: string,
   initialValue: T,
-  defaultTTL?: number,
+  options?: number | UseSessionStorageOptions<T>,
 ): UseSessionStorageReturn<T> {
   const isSSR = typeof window === 'undefined' || !window
-  // holds the setTimeout handler which will remove the session entry when TTL elapses
-  const cleanupTimer = useRef<number | null>(null)
+  const {
+    defaultTTL,
+    version,
+    migrate,
+    adapter: baseAdapter = sessionStorageAdapter,
+    namespace,
+    onQuotaExceeded,
+    eviction,
+    sliding = false,
+    onExpire,
+  } = typeof options === 'number' ? { defaultTTL: options } : (options ?? {})
+  const adapter = useMemo(() => withNamespace(baseAdapter, namespace), [baseAdapter, namespace])
+  // depend on the prefix only, the options object is usually recreated every render
+  const evictionPrefix = eviction?.prefix
 
   const isValidInputs = useCallback((maybeKey: string, value?: T | ((prev: T) => T)): boolean => {
     return maybeKey !== undefined || value !== undefined
   }, [])
 
-  const isStoredPayload = useCallback((parsed: unknown): parsed is StoredPayload<T> => {
-    if (!parsed || typeof parsed !== 'object') return false
-    if (!('expiresAt' in parsed)) return false
-    return true
-  }, [])
+  // every hook bound to the same key reads one snapshot, so they never disagree
+  const store = useMemo(() => getKeyStore(adapter, key), [adapter, key])
+  const record = useSyncExternalStore(store.subscribe, store.getSnapshot, getServerRecord)
+  const [initialState] = useState<SessionState<T>>(() => ({
+    value: initialValue,
+    expiresAt: null,
+    ttl: null,
+  }))
+  const [error, setError] = useState<StorageError | null>(null)
+
+  const parseItem = useCallback(
+    (item: string): ResolvedState<SessionState<T>> => {
+      try {
+        const entry = decodeItem(item)
+        const resolved = resolveEntry<T>(entry, { version, migrate })
+        // e.g. a reload after the ttl elapsed, the value is kept for onExpire when it is usable
+        if (isExpired(entry.expiresAt)) {
+          return resolved
+            ? { ...initialState, expired: true, expiredValue: resolved.value }
+            : { ...initialState, expired: true }
+        }
+        if (!resolved) return initialState
 
-  const scheduleCleanup = useCallback(
-    (expiresAt: number) => {
-      if (isSSR) return
-      // if the cleanupTimer has value
-      if (cleanupTimer.current) {
-        clearTimeout(cleanupTimer.current)
+        const { value, expiresAt, migrated } = resolved
+        const ttl = expiresAt === null ? null : (resolved.ttl ?? defaultTTL ?? null)
+        return { value, expiresAt, ttl, migrated }
+      } catch {
+        return initialState
       }
-
-      const delay = Math.max(0, expiresAt - Date.now())
-      cleanupTimer.current = window.setTimeout(() => {
-        // get the raw data based from the key
-        const raw = storageEnv(STORAGE_ENV.SESSION_STORAGE).getItem(key)
-        if (!raw) return
-        try {
-          const parsedValue = JSON.parse(raw)
-          // check if the value is already expired
-          if (parsedValue?.expiresAt && parsedValue?.expiresAt <= Date.now()) {
-            // remove if true
-            storageEnv(STORAGE_ENV.SESSION_STORAGE).removeItem(key)
-          }
-        } catch {
-          // no op, continue running the schedule or settimer.
-        }
-      }, delay)
     },
-    [isSSR, key],
+    [initialState, version, migrate, defaultTTL],
   )
 
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    if (isSSR) return initialValue
+  const resolveRecord = useCallback(
+    (from: KeyStoreRecord) => resolveStoredRecord(from, initialState, parseItem),
+    [initialState, parseItem],
+  )
 
-    try {
-      const rawData = storageEnv(STORAGE_ENV.SESSION_STORAGE)?.getItem(key)
+  // decoded once per snapshot, options are read again when the stored value changes
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const state = useMemo(() => resolveRecord(record), [record])
+
+  const writePayload = useCallback(
+    (value: T, expiresAt: number | null, ttl: number | null = null) => {
+      const payload = toStoredPayload<T>({ value, expiresAt, version, ttl: ttl ?? undefined })
+      setWithEviction(
+        adapter,
+        key,
+        JSON.stringify(payload),
+        evictionPrefix === undefined ? undefined : { prefix: evictionPrefix },
+      )
+    },
+    [adapter, key, version, evictionPrefix],
+  )
 
-      if (!rawData) return initialValue
+  // publishes the entry to every hook bound to the key, storage failures are reported on the result
+  const storeState = useCallback(
+    (next: SessionState<T>) => {
+      try {
+        store.commit(() => writePayload(next.value, next.expiresAt, next.ttl), { value: next })
+        setError(null)
+      } catch (err) {
+        const storageError = toStorageError(err, key)
+        setError(storageError)
+        if (storageError.type === 'quota-exceeded' && onQuotaExceeded) {
+          onQuotaExceeded(storageError)
+        } else {
+          console.error('useSessionStorage: failed to store value', storageError)
+        }
+      }
+    },
+    [store, key, writePayload, onQuotaExceeded],
+  )
 
-      const parsed = JSON.parse(rawData) as unknown
+  const deleteState = useCallback(
+    () => store.commit(() => adapter.remove(key)),
+    [store, adapter, key],
+  )
 
-      if (isStoredPayload(parsed)) {
-        const expiresAt = parsed.expiresAt
+  // sliding mode: the entry keeps expiring, pushed forward by its ttl
+  const slide = useCallback(
+    (value: T, ttl: number) => storeState({ value, expiresAt: Date.now() + ttl, ttl }),
+    [storeState],
+  )
 
-        if (typeof expiresAt === 'number' && expiresAt < Date.now()) {
-          storageEnv(STORAGE_ENV.SESSION_STORAGE)?.removeItem(key)
-          return initialValue
-        }
+  // the store this hook has hydrated from, sliding only answers that first read
+  const hydratedRef = useRef<KeyStore | null>(null)
 
-        if (typeof expiresAt === 'number') {
-          scheduleCleanup(expiresAt)
-        }
-        return 'value' in parsed ? parsed.value : initialValue
-      }
+  // expired entries are removed and migrated ones persisted by the first hook reading them.
+  // in sliding mode hydrating pushes the expiry forward. later snapshots are not slid, a write from
+  // another document sharing the storage would be answered with a write of its own, forever
+  useEffect(() => {
+    if (isSSR) return
+    const hydrating = hydratedRef.current !== store
+    hydratedRef.current = store
+
+    if (state.expired) deleteState()
+    else if (sliding && hydrating && state.ttl !== null && !record.hasValue) {
+      slide(state.value, state.ttl)
+    } else if (state.migrated) {
+      storeState({ value: state.value, expiresAt: state.expiresAt, ttl: state.ttl })
+    }
+  }, [isSSR, state, record, store, sliding, deleteState, slide, storeState])
 
-      return parsed as T
-    } catch {
-      return initialValue
+  // the state this hook last handled, so every expiry is reported to onExpire once
+  const handledRef = useRef<ResolvedState<SessionState<T>> | null>(null)
+  useEffect(() => {
+    const previous = handledRef.current
+    if (previous === state) return
+    handledRef.current = state
+
+    // read expired, from storage (e.g. after a reload) or from another hook of the page
+    if (state.expired) {
+      if ('expiredValue' in state) onExpire?.(state.expiredValue as T)
+      return
+    }
+    // the entry this hook showed was removed by the cleanup timer
+    const wasShown = previous !== null && previous !== initialState && !previous.expired
+    if (wasShown && state === initialState && isExpired(previous.expiresAt)) {
+      onExpire?.(previous.value)
     }
-  })
+  }, [state, initialState, onExpire])
+
+  // scheduleCleanup: drop the entry once its TTL elapses
+  const { expiresAt } = state
+  useEffect(() => {
+    if (isSSR || expiresAt === null) return
+
+    // the entry may have been slid forward since, so the store is read again
+    return scheduleExpiry(expiresAt, () => {
+      if (resolveRecord(store.getSnapshot()).expired) deleteState()
+    })
+  }, [isSSR, expiresAt, store, resolveRecord, deleteState])
+
+  // expiry and migrations are handled by the shared reader, undefined means the value is unusable
+  const readEntry = useCallback((): ReadEntryResult<T> | undefined => {
+    const entry = readStoredEntry<T>(adapter, key, decodeItem, { version, migrate })
+    if (!entry) return entry
+
+    const ttl = entry.expiresAt === null ? null : (entry.ttl ?? defaultTTL ?? null)
+    // sliding mode: a read pushes the expiry forward
+    if (sliding && ttl !== null) {
+      const expiresAt = Date.now() + ttl
+      writePayload(entry.value, expiresAt, ttl)
+      return { ...entry, expiresAt }
+    }
+    // persist the upgraded shape so the migration only runs once
+    if (entry.migrated) writePayload(entry.value, entry.expiresAt, entry.ttl)
+    return entry
+  }, [adapter, key, version, migrate, writePayload, sliding, defaultTTL])
 
   const setValue = useCallback(
     (next: T | ((prev: T) => T)) => {
-      setStoredValue((prev) => {
-        const valueToStore = typeof next === 'function' ? (next as (p: T) => T)(prev) : next
+      // latest entry, so functional updates can be resolved outside of a render
+      const current = resolveRecord(store.getSnapshot())
+      const valueToStore = typeof next === 'function' ? (next as (p: T) => T)(current.value) : next
 
-        if (!key) {
-          console.warn('useSessionStorage: key is required')
-          return valueToStore
-        }
+      if (!key) {
+        console.warn('useSessionStorage: key is required')
+        return
+      }
 
-        // SSR-safe: update state, skip storage writes when window is missing
-        if (!isSSR) {
-          try {
-            // consistent shape so hydration works the same as TTL writes
-            storageEnv(STORAGE_ENV.SESSION_STORAGE).setItem(
-              key,
-              JSON.stringify({ value: valueToStore, expiresAt: null }),
-            )
-            // no scheduleCleanup — this is the non-expiring path
-          } catch (err) {
-            console.error('useSessionStorage: failed to store value', err)
-          }
-        }
+      // SSR-safe: skip storage writes when window is missing
+      if (isSSR) return
+
+      // sliding mode: a write keeps the entry expiring, pushed forward by its ttl
+      if (sliding && current.ttl !== null) {
+        slide(valueToStore, current.ttl)
+        return
+      }
 
-        return valueToStore
-      })
+      // consistent shape so hydration works the same as TTL writes
+      storeState({ value: valueToStore, expiresAt: null, ttl: null })
     },
-    [key, isSSR],
+    [key, isSSR, store, resolveRecord, sliding, slide, storeState],
   )
 
   const removeValue = useCallback(() => {
@@ -143,22 +306,20 @@ export function useSessionStorage<T>(
         throw new Error('Key is undefined. Please provide a key')
       }
 
-      const checkItemIfStillExist = storageEnv(STORAGE_ENV.SESSION_STORAGE).getItem(key)
+      const checkItemIfStillExist = adapter.get(key)
 
       if (!checkItemIfStillExist) {
         throw new Error('Key-value pair missing. Might be deleted or non-existing.')
       }
-      storageEnv(STORAGE_ENV.SESSION_STORAGE).removeItem(key)
-
-      // once item is remove based on key
-      setStoredValue(initialValue)
+      // once item is remove based on key every hook falls back to its initial value
+      deleteState()
     } catch {
       throw new Error('Unexpected Error. Please try again later.')
     }
-  }, [key, initialValue, isSSR, isValidInputs])
+  }, [key, isSSR, isValidInputs, adapter, deleteState])
 
   const setValueWithTTL = useCallback(
-    (next: T | ((prev: T) => T), overrideTtl: number) => {
+    (next: T | ((prev: T) => T), overrideTtl?: number) => {
       const ttl = overrideTtl ?? defaultTTL
       if (isSSR) return
 
@@ -167,31 +328,14 @@ export function useSessionStorage<T>(
       }
 
       if (next === undefined) throw new Error('Value is required')
-      if (typeof overrideTtl !== 'number' || Number.isNaN(overrideTtl)) {
+      if (typeof ttl !== 'number' || Number.isNaN(ttl)) {
         throw new Error('overrideTtl must be a number')
       }
-      setStoredValue((prev) => {
-        const valueToStore = next instanceof Function ? next(prev) : next
-
-        try {
-          const expiresAt = Date.now() + ttl
-
-          const payload = JSON.stringify({
-            value: valueToStore,
-            expiresAt,
-          })
-
-          storageEnv(STORAGE_ENV.SESSION_STORAGE).setItem(key, payload)
-
-          scheduleCleanup(expiresAt)
-        } catch (err) {
-          console.error('Error storing value in session with TTL', err)
-        }
-
-        return valueToStore
-      })
+      const valueToStore =
+        next instanceof Function ? next(resolveRecord(store.getSnapshot()).value) : next
+      storeState({ value: valueToStore, expiresAt: Date.now() + ttl, ttl })
     },
-    [key, isSSR, scheduleCleanup, isValidInputs, defaultTTL],
+    [key, isSSR, isValidInputs, defaultTTL, store, resolveRecord, storeState],
   )
 
   const getStoredValue = useCallback(() => {
@@ -199,38 +343,18 @@ export function useSessionStorage<T>(
     if (!isValidInputs(key)) return undefined
 
     try {
-      const rawData = storageEnv(STORAGE_ENV.SESSION_STORAGE)?.getItem(key)
-      if (!rawData) return undefined
-
-      const parsed = JSON.parse(rawData) as unknown
-
-      if (isStoredPayload(parsed)) {
-        const expiresAt = parsed.expiresAt
-        if (typeof expiresAt === 'number' && expiresAt <= Date.now()) {
-          storageEnv(STORAGE_ENV.SESSION_STORAGE).removeItem(key)
-          return undefined
-        }
-        return 'value' in parsed ? parsed.value : parsed
-      }
-
-      return parsed as T
+      return readEntry()?.value
     } catch {
       return undefined
     }
-  }, [isSSR, key, isValidInputs, isStoredPayload])
-
-  // delete so it wont cause memory leaks
-  useEffect(() => {
-    return () => {
-      if (cleanupTimer.current) clearTimeout(cleanupTimer.current)
-    }
-  }, [])
+  }, [isSSR, key, isValidInputs, readEntry])
 
   return {
-    storedValue,
+    storedValue: state.value,
     setValue,
     removeValue,
     setValueWithTTL,
     getStoredValue,
+    error,
   }
 }
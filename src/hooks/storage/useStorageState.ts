@@ -0,0 +1,106 @@
+import { useCallback } from 'react'
+import { useLocalStorage } from './useLocalStorage'
+import { useCookie } from './useCookies'
+import { CookieAttributes, CookieSource } from '../../utils/storage/cookie'
+import { STORAGE_ENV, storageAdapter } from '../../utils/storage/storage-env'
+import { createMemoryAdapter } from '../../utils/storage/storage-adapter'
+import { StorageError } from '../../utils/storage/storage-error'
+
+/**
+ * useStorageState:
+ *
+ * One return shape for every backend, so moving a setting between storages is a one option change.
+ * `local`, `session` and `memory` go through the storage adapters, `cookie` through useCookie.
+ * Values are stored as JSON in every backend.
+ */
+
+export type StorageStateBackend = 'local' | 'session' | 'cookie' | 'memory'
+
+interface UseStorageStateOptions {
+  storage?: StorageStateBackend
+  // stores the value under `<namespace>:<key>`
+  namespace?: string
+  // attributes used when `storage` is 'cookie'
+  cookie?: CookieAttributes & { ssrCookies?: CookieSource }
+}
+
+interface UseStorageStateReturn<T> {
+  storedValue: T
+  setValue: (value: T | ((prev: T) => T)) => void
+  removeValue: () => void
+  // last failed write, cleared by the next successful one
+  error: StorageError | null
+}
+
+// shared by every hook instance in the page, like a storage that is never persisted
+const memoryAdapter = createMemoryAdapter()
+
+const encodeCookie = (value: unknown) => JSON.stringify(value)
+const decodeCookie = <T>(raw: string | null): T | null => {
+  if (raw === null) return null
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    // written outside of this hook, keep it as a plain string
+    return raw as T
+  }
+}
+
+export function useStorageState<T>(
+  key: string,
+  initialValue: T,
+  options: UseStorageStateOptions = {},
+): UseStorageStateReturn<T> {
+  const { storage = 'local', namespace, cookie = {} } = options
+  const isCookie = storage === 'cookie'
+
+  // both hooks always run to keep the hook order stable when `storage` changes,
+  // only the selected one is ever written to
+  const webStorage = useLocalStorage<T>(key, initialValue, {
+    adapter:
+      storage === 'session'
+        ? storageAdapter(STORAGE_ENV.SESSION_STORAGE)
+        : storage === 'local'
+          ? storageAdapter(STORAGE_ENV.LOCAL_STORAGE)
+          : memoryAdapter,
+    namespace,
+  })
+  // the cookie hook still subscribes to the cookie jar for the other backends (a listener in a
+  // shared set), but the attributes are only validated for the selected backend
+  const cookieStorage = useCookie<T>(key, initialValue, {
+    ...(isCookie ? cookie : {}),
+    namespace,
+    encode: encodeCookie,
+    decode: decodeCookie<T>,
+  })
+
+  // a removed cookie reads as null, report the initial value like the other backends
+  const cookieValue = cookieStorage.value ?? initialValue
+  const { setValue: setWebValue, removeValue: removeWebValue } = webStorage
+  const { setCookie, removeCookie } = cookieStorage
+
+  const setValue = useCallback(
+    (value: T | ((prev: T) => T)) => {
+      if (!isCookie) {
+        setWebValue(value)
+        return
+      }
+      // resolved from the latest published cookie, like the web storages, so updates chain
+      setCookie(value instanceof Function ? (prev) => value(prev ?? initialValue) : value)
+    },
+    [isCookie, setWebValue, setCookie, initialValue],
+  )
+
+  const removeValue = useCallback(() => {
+    if (isCookie) removeCookie()
+    else removeWebValue()
+  }, [isCookie, removeWebValue, removeCookie])
+
+  return {
+    storedValue: isCookie ? cookieValue : webStorage.storedValue,
+    setValue,
+    removeValue,
+    // the browser drops invalid cookies without an error, so cookie writes never report one
+    error: isCookie ? null : webStorage.error,
+  }
+}
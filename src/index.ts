@@ -1 +1,9 @@
 export * from './hooks/index'
+
+// storage engine, shared by the storage hooks
+export * from './utils/storage/storage-env'
+export * from './utils/storage/storage-adapter'
+export * from './utils/storage/storage-error'
+export * from './utils/storage/eviction'
+export * from './utils/storage/namespace'
+export * from './utils/storage/integrity'
@@ -0,0 +1,78 @@
+type MediaQueryListener = (matches: boolean) => void
+
+type MediaQueryEntry = {
+  media: MediaQueryList
+  // last value reported by the browser, shared by every subscriber of the query
+  matches: boolean
+  listeners: Set<MediaQueryListener>
+  detach: () => void
+}
+
+// one MediaQueryList and one change listener per unique query, however many hooks watch it
+const entries = new Map<string, MediaQueryEntry>()
+
+const canMatchMedia = () => typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+
+// Safari before 14 has no EventTarget methods on MediaQueryList, only `addListener`
+const attachLegacyListener = (media: MediaQueryList, onChange: (event: Event) => void) => {
+  if (typeof media.addListener !== 'function') return () => {}
+  // legacy listeners may receive the MediaQueryList itself, it carries `matches` as well
+  media.addListener(onChange)
+  return () => media.removeListener(onChange)
+}
+
+const attachListener = (media: MediaQueryList, onChange: (event: Event) => void) => {
+  if (typeof media.addEventListener !== 'function') return attachLegacyListener(media, onChange)
+  try {
+    media.addEventListener('change', onChange)
+    return () => media.removeEventListener('change', onChange)
+  } catch {
+    return attachLegacyListener(media, onChange)
+  }
+}
+
+/**
+ * Current match of `query`, `undefined` where `matchMedia` is not available (e.g. on the server)
+ * so the hooks can apply their own defaults.
+ */
+export function readMediaQuery(query: string): boolean | undefined {
+  if (!canMatchMedia()) return undefined
+  return entries.get(query)?.matches ?? window.matchMedia(query).matches
+}
+
+/**
+ * Calls `listener` with the new match whenever `query` changes. The MediaQueryList is created
+ * for the first subscriber and released after the last one leaves.
+ */
+export function subscribeMediaQuery(query: string, listener: MediaQueryListener): () => void {
+  if (!canMatchMedia()) return () => {}
+
+  let entry = entries.get(query)
+  if (!entry) {
+    const media = window.matchMedia(query)
+    const created: MediaQueryEntry = {
+      media,
+      matches: media.matches,
+      listeners: new Set(),
+      detach: () => {},
+    }
+
+    created.detach = attachListener(media, (event) => {
+      created.matches =
+        'matches' in event ? (event as MediaQueryListEvent).matches : created.media.matches
+      ;[...created.listeners].forEach((notify) => notify(created.matches))
+    })
+    entries.set(query, created)
+    entry = created
+  }
+
+  const current = entry
+  current.listeners.add(listener)
+
+  return () => {
+    current.listeners.delete(listener)
+    if (current.listeners.size > 0 || entries.get(query) !== current) return
+    current.detach()
+    entries.delete(query)
+  }
+}
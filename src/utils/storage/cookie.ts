@@ -0,0 +1,105 @@
+export interface CookieAttributes {
+  path?: string
+  domain?: string
+  sameSite?: 'strict' | 'lax' | 'none'
+  secure?: boolean
+  maxAge?: number // seconds
+  expires?: Date
+  // CHIPS, stores the cookie per top-level site, requires secure
+  partitioned?: boolean
+  priority?: 'low' | 'medium' | 'high'
+}
+
+// browsers silently drop these cookies, fail loudly instead
+export function validateCookieAttributes({ sameSite, secure, partitioned }: CookieAttributes) {
+  if (sameSite === 'none' && !secure) throw new Error('SameSite=None requires secure: true')
+  if (partitioned && !secure) throw new Error('Partitioned cookies require secure: true')
+}
+
+// attributes that expire the cookie right away. The cookie is only replaced when path, domain
+// and partitioned match the ones it was set with, so those have to be kept
+export const expiredCookieAttributes = (attributes: CookieAttributes): CookieAttributes => ({
+  ...attributes,
+  maxAge: 0,
+  expires: new Date(0),
+})
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    // keep malformed sequences as they are instead of dropping the cookie
+    return value
+  }
+}
+
+// shape of Next's `cookies()` / `request.cookies`, kept structural to avoid depending on next
+export interface RequestCookieStore {
+  getAll: () => { name: string; value: string }[]
+}
+
+// anything a server can hand over to seed cookies: a `Cookie` header, a cookie store or a record
+export type CookieSource = string | RequestCookieStore | Record<string, string>
+
+export function resolveCookieSource(source: CookieSource): Record<string, string> {
+  if (typeof source === 'string') return parseCookies(source)
+  if (typeof source.getAll === 'function') {
+    const jar: Record<string, string> = {}
+    for (const { name, value } of (source as RequestCookieStore).getAll()) {
+      if (!(name in jar)) jar[name] = value
+    }
+    return jar
+  }
+  return source as Record<string, string>
+}
+
+// parses a `document.cookie` / `Cookie` header string into a key-value record
+export function parseCookies(cookieString: string): Record<string, string> {
+  const jar: Record<string, string> = {}
+  if (!cookieString) return jar
+
+  for (const part of cookieString.split(';')) {
+    // split on the first `=` only, values are allowed to contain `=`
+    const equalIndex = part.indexOf('=')
+    if (equalIndex === -1) continue
+
+    const key = safeDecode(part.slice(0, equalIndex).trim())
+    if (!key || key in jar) continue
+
+    let value = part.slice(equalIndex + 1).trim()
+    if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1)
+    jar[key] = safeDecode(value)
+  }
+
+  return jar
+}
+
+export function serializeCookie(
+  key: string,
+  value: string,
+  attributes: CookieAttributes = {},
+): string {
+  validateCookieAttributes(attributes)
+  const {
+    path = '/',
+    domain,
+    sameSite = 'lax',
+    secure = false,
+    maxAge,
+    expires,
+    partitioned,
+    priority,
+  } = attributes
+
+  let cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; path=${path}; SameSite=${sameSite}`
+
+  // check if extra config are available
+  if (domain) cookie += `; domain=${domain}`
+  if (secure) cookie += `; secure`
+  if (maxAge != null) cookie += `; max-age=${maxAge}`
+  if (expires) cookie += `; expires=${expires.toUTCString()}`
+  if (partitioned) cookie += `; Partitioned`
+  if (priority) cookie += `; Priority=${priority}`
+
+  return cookie
+}
@@ -0,0 +1,73 @@
+import { StorageAdapter } from './storage-adapter'
+import { isQuotaExceededError } from './storage-error'
+
+export interface EvictionOptions {
+  // only keys starting with this prefix are candidates for eviction
+  prefix: string
+}
+
+// access times live next to the evictable keys, under the same prefix
+const accessLogKey = (prefix: string) => `${prefix}__lru__`
+
+const readAccessLog = (adapter: StorageAdapter, prefix: string): Record<string, number> => {
+  try {
+    const raw = adapter.get(accessLogKey(prefix))
+    return raw ? (JSON.parse(raw) as Record<string, number>) : {}
+  } catch {
+    return {}
+  }
+}
+
+// records that a key was used, keys without a record are evicted first
+export function touchKey(adapter: StorageAdapter, key: string, { prefix }: EvictionOptions) {
+  if (!key.startsWith(prefix)) return
+  try {
+    const log = readAccessLog(adapter, prefix)
+    log[key] = Date.now()
+    adapter.set(accessLogKey(prefix), JSON.stringify(log))
+  } catch {
+    // bookkeeping must never break the write it belongs to
+  }
+}
+
+/**
+ * Writes a value, evicting the least recently used keys under the prefix
+ * one by one while the backend reports a quota error.
+ * Returns the evicted keys, rethrows once there is nothing left to evict.
+ */
+export function setWithEviction(
+  adapter: StorageAdapter,
+  key: string,
+  value: string,
+  eviction?: EvictionOptions,
+): string[] {
+  const evicted: string[] = []
+
+  for (;;) {
+    try {
+      adapter.set(key, value)
+      if (eviction) touchKey(adapter, key, eviction)
+      return evicted
+    } catch (error) {
+      if (!eviction || !isQuotaExceededError(error)) throw error
+
+      const logKey = accessLogKey(eviction.prefix)
+      const log = readAccessLog(adapter, eviction.prefix)
+      const [candidate] = adapter
+        .keys()
+        .filter((k) => k.startsWith(eviction.prefix) && k !== logKey && k !== key)
+        .sort((a, b) => (log[a] ?? 0) - (log[b] ?? 0))
+
+      if (!candidate) throw error
+
+      adapter.remove(candidate)
+      evicted.push(candidate)
+      delete log[candidate]
+      try {
+        adapter.set(logKey, JSON.stringify(log))
+      } catch {
+        // the log is rebuilt on the next successful write
+      }
+    }
+  }
+}
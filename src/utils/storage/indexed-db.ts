@@ -0,0 +1,115 @@
+// one connection per database/store pair, shared by every hook instance
+const connections = new Map<string, Promise<IDBDatabase>>()
+
+export const isIndexedDBSupported = () =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined'
+
+export function openDatabase(dbName: string, storeName: string): Promise<IDBDatabase> {
+  const cacheKey = `${dbName}/${storeName}`
+  const cached = connections.get(cacheKey)
+  if (cached) return cached
+
+  // only forget the entry this call created, a newer connection may have replaced it
+  const release = () => {
+    if (connections.get(cacheKey) === connection) connections.delete(cacheKey)
+  }
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    const share = (db: IDBDatabase) => {
+      // another connection is upgrading the database (e.g. to add its store), close this one so
+      // the upgrade is not blocked. the next call reopens at the new version
+      db.onversionchange = () => {
+        db.close()
+        release()
+      }
+      db.onclose = release
+      resolve(db)
+    }
+
+    const request = window.indexedDB.open(dbName)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(storeName)) db.createObjectStore(storeName)
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      if (db.objectStoreNames.contains(storeName)) {
+        share(db)
+        return
+      }
+
+      // the database already exists without this store, bump the version to create it
+      const nextVersion = db.version + 1
+      db.close()
+      const upgrade = window.indexedDB.open(dbName, nextVersion)
+      let blocked = false
+      upgrade.onupgradeneeded = () => upgrade.result.createObjectStore(storeName)
+      upgrade.onsuccess = () => {
+        // the blocking connection closed after we gave up, do not leak this one
+        if (blocked) upgrade.result.close()
+        else share(upgrade.result)
+      }
+      upgrade.onerror = () => reject(upgrade.error)
+      // a connection that ignores versionchange (e.g. another tab on an older version) keeps the
+      // upgrade waiting indefinitely, fail instead of loading forever
+      upgrade.onblocked = () => {
+        blocked = true
+        reject(
+          new Error(`Opening store "${storeName}" is blocked by another connection to "${dbName}"`),
+        )
+      }
+    }
+
+    request.onerror = () => reject(request.error)
+  })
+
+  // drop failed connections so the next call can retry
+  connection.catch(release)
+  connections.set(cacheKey, connection)
+  return connection
+}
+
+const openTransaction = async (
+  dbName: string,
+  storeName: string,
+  mode: IDBTransactionMode,
+): Promise<IDBTransaction> => {
+  const db = await openDatabase(dbName, storeName)
+  try {
+    return db.transaction(storeName, mode)
+  } catch (error) {
+    // the connection was closed for an upgrade after it was handed out, use the new version
+    if ((error as DOMException | null)?.name !== 'InvalidStateError') throw error
+    const reopened = await openDatabase(dbName, storeName)
+    return reopened.transaction(storeName, mode)
+  }
+}
+
+const runTransaction = async <R>(
+  dbName: string,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<R> => {
+  const transaction = await openTransaction(dbName, storeName, mode)
+
+  return new Promise<R>((resolve, reject) => {
+    const request = operation(transaction.objectStore(storeName))
+
+    // resolve once the transaction commits, not when the request succeeds
+    transaction.oncomplete = () => resolve(request.result as R)
+    transaction.onerror = () => reject(transaction.error ?? request.error)
+    transaction.onabort = () => reject(transaction.error ?? request.error)
+  })
+}
+
+export const idbGet = <T>(dbName: string, storeName: string, key: string) =>
+  runTransaction<T | undefined>(dbName, storeName, 'readonly', (store) => store.get(key))
+
+export const idbSet = <T>(dbName: string, storeName: string, key: string, value: T) =>
+  runTransaction<IDBValidKey>(dbName, storeName, 'readwrite', (store) => store.put(value, key))
+
+export const idbDelete = (dbName: string, storeName: string, key: string) =>
+  runTransaction<undefined>(dbName, storeName, 'readwrite', (store) => store.delete(key))
@@ -0,0 +1,142 @@
+export interface IntegrityOptions {
+  // app supplied secret, or a CryptoKey (HMAC for 'sign', AES-GCM for 'encrypt')
+  key: string | CryptoKey
+  // 'sign' detects tampering, 'encrypt' also hides the value
+  mode?: 'sign' | 'encrypt'
+}
+
+/**
+ * Seals stored strings with crypto.subtle. `name` is the full storage key (or cookie name) the
+ * value is stored under, it is authenticated along with the value. `open` resolves to null for
+ * values that were tampered with, written without a seal, sealed with another key or copied from
+ * another name.
+ */
+export interface Sealer {
+  seal: (name: string, value: string) => Promise<string>
+  open: (name: string, sealed: string) => Promise<string | null>
+}
+
+const SEPARATOR = '.'
+const IV_LENGTH = 12
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// base64url has no `.`, so the separator can never appear inside an encoded part
+const toBase64Url = (buffer: ArrayBuffer | Uint8Array) => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+// splits on the first separator only, signed values are allowed to contain it
+const splitSealed = (sealed: string): [string, string] | null => {
+  const index = sealed.indexOf(SEPARATOR)
+  if (index <= 0) return null
+  return [sealed.slice(0, index), sealed.slice(index + 1)]
+}
+
+// JSON keeps the boundary between name and value unambiguous
+const signedData = (name: string, value: string) => encoder.encode(JSON.stringify([name, value]))
+
+const getSubtle = () => {
+  const subtle = globalThis.crypto?.subtle
+  if (!subtle) throw new Error('crypto.subtle is not available in this environment')
+  return subtle
+}
+
+const importKey = async (key: string | CryptoKey, mode: 'sign' | 'encrypt') => {
+  if (typeof key !== 'string') return key
+  const subtle = getSubtle()
+
+  if (mode === 'sign') {
+    return subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+      'verify',
+    ])
+  }
+  // AES needs exactly 256 bits, derive them from the secret
+  const material = await subtle.digest('SHA-256', encoder.encode(key))
+  return subtle.importKey('raw', material, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+}
+
+export function createSealer({ key, mode = 'sign' }: IntegrityOptions): Sealer {
+  // imported once per sealer, lazily so creating one never throws
+  let cryptoKey: Promise<CryptoKey> | null = null
+  const getKey = () => (cryptoKey ??= importKey(key, mode))
+
+  if (mode === 'encrypt') {
+    return {
+      seal: async (name, value) => {
+        const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+        const cipher = await getSubtle().encrypt(
+          { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+          await getKey(),
+          encoder.encode(value),
+        )
+        return `${toBase64Url(iv)}${SEPARATOR}${toBase64Url(cipher)}`
+      },
+      open: async (name, sealed) => {
+        const parts = splitSealed(sealed)
+        if (!parts) return null
+        try {
+          // GCM is authenticated, decrypting a modified value or one sealed for another name fails
+          const plain = await getSubtle().decrypt(
+            { name: 'AES-GCM', iv: fromBase64Url(parts[0]), additionalData: encoder.encode(name) },
+            await getKey(),
+            fromBase64Url(parts[1]),
+          )
+          return decoder.decode(plain)
+        } catch {
+          return null
+        }
+      },
+    }
+  }
+
+  return {
+    seal: async (name, value) => {
+      const signature = await getSubtle().sign('HMAC', await getKey(), signedData(name, value))
+      return `${toBase64Url(signature)}${SEPARATOR}${value}`
+    },
+    open: async (name, sealed) => {
+      const parts = splitSealed(sealed)
+      if (!parts) return null
+      try {
+        const valid = await getSubtle().verify(
+          'HMAC',
+          await getKey(),
+          fromBase64Url(parts[0]),
+          signedData(name, parts[1]),
+        )
+        return valid ? parts[1] : null
+      } catch {
+        // malformed signature
+        return null
+      }
+    },
+  }
+}
+
+export type SealQueue = (operation: () => Promise<void> | void) => Promise<void>
+
+/**
+ * Runs sealed writes one after another. Sealing is asynchronous, so without the queue an earlier
+ * write could land last. A failed operation rejects its own promise without blocking the queue.
+ */
+export function createSealQueue(): SealQueue {
+  let tail: Promise<void> = Promise.resolve()
+  return (operation) => {
+    const run = tail.then(operation)
+    tail = run.catch(() => {})
+    return run
+  }
+}
@@ -0,0 +1,130 @@
+import { StorageAdapter } from './storage-adapter'
+
+/**
+ * Immutable view of one key, replaced whenever the key changes so it can be used as a
+ * `useSyncExternalStore` snapshot.
+ */
+export type KeyStoreRecord = {
+  // raw string in the backend when the record was taken
+  raw: string | null
+  // decoded value published by a hook, `undefined` stands for a verified missing value
+  value?: unknown
+  hasValue: boolean
+}
+
+export interface KeyStore {
+  subscribe: (listener: () => void) => () => void
+  getSnapshot: () => KeyStoreRecord
+  // persists through `write` and publishes `next` to every hook bound to the key. `next` is
+  // published even when `write` throws, so the page keeps the value on quota errors
+  commit: (write: () => void, next?: { value: unknown }) => void
+  // persists through `write` and keeps the value currently published
+  persist: (write: () => void) => void
+  // publishes a value decoded from `record`, ignored when the key changed meanwhile
+  resolve: (record: KeyStoreRecord, next: { value: unknown }) => void
+}
+
+// nothing is readable on the server, hooks fall back to their initial value
+export const SERVER_RECORD: KeyStoreRecord = { raw: null, hasValue: false }
+export const getServerRecord = () => SERVER_RECORD
+
+function createKeyStore(adapter: StorageAdapter, key: string): KeyStore {
+  const listeners = new Set<() => void>()
+  let unsubscribeAdapter: (() => void) | null = null
+  // set while a hook writes, the adapter notification is handled by commit itself
+  let writing = false
+
+  const read = () => {
+    try {
+      return adapter.get(key)
+    } catch {
+      // storage can be disabled, treat it as empty
+      return null
+    }
+  }
+
+  let record: KeyStoreRecord = { raw: read(), hasValue: false }
+
+  const emit = () => {
+    ;[...listeners].forEach((listener) => listener())
+  }
+
+  // the backend may also change without a notification (e.g. `document.cookie` written directly),
+  // so every read checks the raw value first
+  const getSnapshot = () => {
+    const raw = read()
+    if (raw !== record.raw) record = { raw, hasValue: false }
+    return record
+  }
+
+  const runWrite = (write: () => void) => {
+    writing = true
+    try {
+      write()
+    } finally {
+      writing = false
+    }
+  }
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener)
+      unsubscribeAdapter ??= adapter.subscribe((changedKey) => {
+        if (writing || (changedKey !== null && changedKey !== key)) return
+        const previous = record
+        if (getSnapshot() !== previous) emit()
+      })
+
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size > 0 || !unsubscribeAdapter) return
+        unsubscribeAdapter()
+        unsubscribeAdapter = null
+        // no hook holds the published value anymore, the next one starts from storage
+        record = { raw: read(), hasValue: false }
+      }
+    },
+    getSnapshot,
+    commit: (write, next) => {
+      try {
+        runWrite(write)
+      } finally {
+        record = next
+          ? { raw: read(), value: next.value, hasValue: true }
+          : { raw: read(), hasValue: false }
+        emit()
+      }
+    },
+    persist: (write) => {
+      try {
+        runWrite(write)
+      } finally {
+        record = { ...record, raw: read() }
+        emit()
+      }
+    },
+    resolve: (from, next) => {
+      if (getSnapshot() !== from) return
+      record = { raw: from.raw, value: next.value, hasValue: true }
+      emit()
+    },
+  }
+}
+
+// one store per adapter and key, shared by every hook bound to the same key
+const stores = new WeakMap<StorageAdapter, Map<string, KeyStore>>()
+
+export function getKeyStore(adapter: StorageAdapter, key: string): KeyStore {
+  let byKey = stores.get(adapter)
+  if (!byKey) {
+    byKey = new Map()
+    stores.set(adapter, byKey)
+  }
+
+  let store = byKey.get(key)
+  if (!store) {
+    store = createKeyStore(adapter, key)
+    byKey.set(key, store)
+  }
+  return store
+}
@@ -0,0 +1,88 @@
+import { StorageAdapter, localStorageAdapter } from './storage-adapter'
+
+// namespaced keys are stored as `<namespace>:<key>`
+const NAMESPACE_SEPARATOR = ':'
+
+const namespacePrefix = (namespace: string) => `${namespace}${NAMESPACE_SEPARATOR}`
+
+// key as stored in the backend
+export const namespacedKey = (key: string, namespace?: string) =>
+  namespace ? `${namespacePrefix(namespace)}${key}` : key
+
+/**
+ * Wraps an adapter so every key is read and written under a namespace.
+ * `keys` and `subscribe` only see keys of that namespace, without the prefix.
+ */
+export function createNamespacedAdapter(base: StorageAdapter, namespace: string): StorageAdapter {
+  const prefix = namespacePrefix(namespace)
+
+  return {
+    get: (key) => base.get(`${prefix}${key}`),
+    set: (key, value) => base.set(`${prefix}${key}`, value),
+    remove: (key) => base.remove(`${prefix}${key}`),
+    keys: () =>
+      base
+        .keys()
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => key.slice(prefix.length)),
+    subscribe: (listener) =>
+      base.subscribe((key) => {
+        if (key === null) listener(null)
+        else if (key.startsWith(prefix)) listener(key.slice(prefix.length))
+      }),
+  }
+}
+
+// cached so hooks using the same namespace share one adapter, and with it one key store
+const namespacedAdapters = new WeakMap<StorageAdapter, Map<string, StorageAdapter>>()
+
+// lets the hooks keep a single code path whether a namespace is set or not
+export function withNamespace(adapter: StorageAdapter, namespace?: string): StorageAdapter {
+  if (!namespace) return adapter
+
+  let byNamespace = namespacedAdapters.get(adapter)
+  if (!byNamespace) {
+    byNamespace = new Map()
+    namespacedAdapters.set(adapter, byNamespace)
+  }
+
+  let namespaced = byNamespace.get(namespace)
+  if (!namespaced) {
+    namespaced = createNamespacedAdapter(adapter, namespace)
+    byNamespace.set(namespace, namespaced)
+  }
+  return namespaced
+}
+
+// keys stored under the namespace, without the prefix
+export const getNamespaceKeys = (
+  namespace: string,
+  adapter: StorageAdapter = localStorageAdapter,
+) => createNamespacedAdapter(adapter, namespace).keys()
+
+// raw stored strings by key, e.g. for a debug panel or a backup
+export function exportNamespace(
+  namespace: string,
+  adapter: StorageAdapter = localStorageAdapter,
+): Record<string, string> {
+  const namespaced = createNamespacedAdapter(adapter, namespace)
+  const entries: Record<string, string> = {}
+
+  namespaced.keys().forEach((key) => {
+    const value = namespaced.get(key)
+    if (value !== null) entries[key] = value
+  })
+  return entries
+}
+
+// removes every key of the namespace and returns them, other keys are left untouched
+export function clearNamespace(
+  namespace: string,
+  adapter: StorageAdapter = localStorageAdapter,
+): string[] {
+  const namespaced = createNamespacedAdapter(adapter, namespace)
+  const keys = namespaced.keys()
+
+  keys.forEach((key) => namespaced.remove(key))
+  return keys
+}
@@ -0,0 +1,151 @@
+import { CookieAttributes, expiredCookieAttributes, parseCookies, serializeCookie } from './cookie'
+
+// called with the key that changed, or null when every key was cleared
+export type StorageListener = (key: string | null) => void
+
+/**
+ * Minimal string key-value backend the storage hooks are built on.
+ * Implement this once to use a custom backend from every storage hook.
+ */
+export interface StorageAdapter {
+  get: (key: string) => string | null
+  set: (key: string, value: string) => void
+  remove: (key: string) => void
+  keys: () => string[]
+  subscribe: (listener: StorageListener) => () => void
+}
+
+const checkIsSSR = () => typeof window === 'undefined' || !window
+
+const notify = (listeners: Set<StorageListener>, key: string | null) => {
+  // copy first, a listener may unsubscribe while we iterate
+  ;[...listeners].forEach((listener) => listener(key))
+}
+
+export function createMemoryAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const store = new Map(Object.entries(initial))
+  const listeners = new Set<StorageListener>()
+
+  return {
+    get: (key) => store.get(key) ?? null,
+    set: (key, value) => {
+      store.set(key, value)
+      notify(listeners, key)
+    },
+    remove: (key) => {
+      store.delete(key)
+      notify(listeners, key)
+    },
+    keys: () => [...store.keys()],
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+  }
+}
+
+/**
+ * Wraps a Web Storage area. Writes are broadcast in-page to every subscriber,
+ * writes from other tabs arrive through the native `storage` event.
+ */
+export function createWebStorageAdapter(getStorage: () => Storage): StorageAdapter {
+  const listeners = new Set<StorageListener>()
+
+  const resolveStorage = (): Storage | null => {
+    if (checkIsSSR()) return null
+    try {
+      return getStorage()
+    } catch {
+      // access can throw when storage is disabled (e.g. blocked third-party storage)
+      return null
+    }
+  }
+
+  return {
+    get: (key) => resolveStorage()?.getItem(key) ?? null,
+    set: (key, value) => {
+      const storage = resolveStorage()
+      if (!storage) return
+      storage.setItem(key, value)
+      notify(listeners, key)
+    },
+    remove: (key) => {
+      const storage = resolveStorage()
+      if (!storage) return
+      storage.removeItem(key)
+      notify(listeners, key)
+    },
+    keys: () => {
+      const storage = resolveStorage()
+      if (!storage) return []
+      const keys: string[] = []
+      for (let index = 0; index < storage.length; index++) {
+        const key = storage.key(index)
+        if (key !== null) keys.push(key)
+      }
+      return keys
+    },
+    subscribe: (listener) => {
+      if (checkIsSSR()) return () => {}
+
+      const handleStorage = (event: StorageEvent) => {
+        if (event.storageArea && event.storageArea !== resolveStorage()) return
+        listener(event.key)
+      }
+
+      listeners.add(listener)
+      window.addEventListener('storage', handleStorage)
+
+      return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', handleStorage)
+      }
+    },
+  }
+}
+
+export const localStorageAdapter = createWebStorageAdapter(() => window.localStorage)
+
+export const sessionStorageAdapter = createWebStorageAdapter(() => window.sessionStorage)
+
+// shared by every cookie adapter, they all write to the same document.cookie jar
+const cookieListeners = new Set<StorageListener>()
+
+export function createCookieAdapter(attributes: CookieAttributes = {}): StorageAdapter {
+  const readJar = () => (typeof document === 'undefined' ? {} : parseCookies(document.cookie))
+
+  return {
+    get: (key) => readJar()[key] ?? null,
+    set: (key, value) => {
+      if (typeof document === 'undefined') return
+      document.cookie = serializeCookie(key, value, attributes)
+      notify(cookieListeners, key)
+    },
+    remove: (key) => {
+      if (typeof document === 'undefined') return
+      document.cookie = serializeCookie(key, '', expiredCookieAttributes(attributes))
+      notify(cookieListeners, key)
+    },
+    keys: () => Object.keys(readJar()),
+    subscribe: (listener) => {
+      cookieListeners.add(listener)
+
+      // the Cookie Store API also reports cookies changed by other tabs or by server responses
+      const cookieStore = !checkIsSSR() && 'cookieStore' in window ? window.cookieStore : null
+      const handleChange = (event: Event) => {
+        const { changed = [], deleted = [] } = event as CookieChangeEvent
+        ;[...changed, ...deleted].forEach(({ name }) => {
+          if (name) listener(name)
+        })
+      }
+      cookieStore?.addEventListener('change', handleChange)
+
+      return () => {
+        cookieListeners.delete(listener)
+        cookieStore?.removeEventListener('change', handleChange)
+      }
+    },
+  }
+}
+
+export const cookieAdapter = createCookieAdapter()
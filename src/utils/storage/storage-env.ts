@@ -1,3 +1,5 @@
+import { StorageAdapter, localStorageAdapter, sessionStorageAdapter } from './storage-adapter'
+
 export enum STORAGE_ENV {
   LOCAL_STORAGE = 'localStorage',
   SESSION_STORAGE = 'sessionStorage',
@@ -7,3 +9,9 @@ export const storageEnv = (env: STORAGE_ENV) => {
   const window = globalThis.window as Window
   return env === STORAGE_ENV.LOCAL_STORAGE ? window.localStorage : window.sessionStorage
 }
+
+// resolves an environment to its adapter, custom adapters are passed through
+export const storageAdapter = (env: STORAGE_ENV | StorageAdapter): StorageAdapter => {
+  if (typeof env !== 'string') return env
+  return env === STORAGE_ENV.LOCAL_STORAGE ? localStorageAdapter : sessionStorageAdapter
+}
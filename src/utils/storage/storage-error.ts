@@ -0,0 +1,40 @@
+export type StorageErrorType = 'quota-exceeded' | 'unavailable' | 'unknown'
+
+/**
+ * Typed error surfaced by the storage hooks instead of a rethrown generic error.
+ * The original error thrown by the backend is kept on `cause`.
+ */
+export class StorageError extends Error {
+  readonly type: StorageErrorType
+  readonly key: string
+
+  constructor(type: StorageErrorType, key: string, cause?: unknown) {
+    super(`Storage ${type} error for key "${key}"`, { cause })
+    this.name = 'StorageError'
+    this.type = type
+    this.key = key
+  }
+}
+
+export const isQuotaExceededError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false
+  const { name, code } = error as { name?: string; code?: number }
+  return (
+    name === 'QuotaExceededError' ||
+    // firefox
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    // legacy numeric codes (webkit / firefox)
+    code === 22 ||
+    code === 1014
+  )
+}
+
+export const toStorageError = (error: unknown, key: string): StorageError => {
+  if (error instanceof StorageError) return error
+  if (isQuotaExceededError(error)) return new StorageError('quota-exceeded', key, error)
+  // SecurityError is thrown when storage is disabled (private mode, blocked cookies)
+  if (error instanceof Error && error.name === 'SecurityError') {
+    return new StorageError('unavailable', key, error)
+  }
+  return new StorageError('unknown', key, error)
+}
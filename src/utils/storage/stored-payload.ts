@@ -0,0 +1,176 @@
+import { StorageAdapter } from './storage-adapter'
+import { KeyStoreRecord } from './key-store'
+
+export type MigrateFn<T> = (oldValue: unknown, fromVersion: number) => T
+
+export interface VersionOptions<T> {
+  // current schema version of the persisted value
+  version?: number
+  // upgrades a value persisted by an older version, called with the stored version
+  migrate?: MigrateFn<T>
+}
+
+type ResolvedVersion<T> = {
+  value: T
+  migrated: boolean
+}
+
+// values written before versioning was enabled are treated as version 0
+export const LEGACY_VERSION = 0
+
+/**
+ * Resolves a stored value against the current schema version.
+ * Returns undefined when the value cannot be used (no migration available,
+ * or it was written by a newer version of the app) so callers fall back to their initial value.
+ */
+export function resolveVersion<T>(
+  value: unknown,
+  storedVersion: number | undefined,
+  { version, migrate }: VersionOptions<T>,
+): ResolvedVersion<T> | undefined {
+  if (version === undefined) return { value: value as T, migrated: false }
+
+  const fromVersion = storedVersion ?? LEGACY_VERSION
+  if (fromVersion === version) return { value: value as T, migrated: false }
+
+  // downgrades are not supported, the shape is unknown to this version
+  if (fromVersion > version || !migrate) return undefined
+
+  return { value: migrate(value, fromVersion), migrated: true }
+}
+
+export const isExpired = (expiresAt: number | null | undefined): expiresAt is number =>
+  typeof expiresAt === 'number' && expiresAt <= Date.now()
+
+// wrapper the storage hooks write when a value carries metadata
+export type StoredPayload<V> = {
+  // tags the wrapper, a plain value shaped like one must never be unwrapped
+  __garuda: 1
+  value: V
+  expiresAt?: number | null
+  version?: number
+  // ttl the expiry was computed from, lets sliding expiry survive a reload
+  ttl?: number
+}
+
+// value a hook publishes to the key store, see `KeyStore.commit`
+export type StoredState<T> = {
+  value: T
+  expiresAt: number | null
+}
+
+// how a stored entry reads for a hook
+export type ResolvedState<S extends StoredState<unknown>> = S & {
+  // the entry has expired, it is removed after render
+  expired?: boolean
+  // value of the expired entry, when it was still usable
+  expiredValue?: S['value']
+  // the entry was upgraded by `migrate`, it is persisted after render
+  migrated?: boolean
+}
+
+export type StoredEntry = {
+  value: unknown
+  expiresAt: number | null
+  version?: number
+  ttl?: number
+}
+
+export interface ReadEntryOptions<T> extends VersionOptions<T> {
+  // type guard used to reject corrupted or outdated values
+  validate?: (value: unknown) => value is T
+}
+
+export type ReadEntryResult<T> = {
+  value: T
+  expiresAt: number | null
+  ttl?: number
+  migrated: boolean
+}
+
+export const toStoredPayload = <V>(
+  payload: Omit<StoredPayload<V>, '__garuda'>,
+): StoredPayload<V> => ({ __garuda: 1, ...payload })
+
+export const isStoredPayload = (parsed: unknown): parsed is StoredPayload<unknown> => {
+  if (!parsed || typeof parsed !== 'object') return false
+  return (parsed as { __garuda?: unknown }).__garuda === 1 && 'value' in parsed
+}
+
+/**
+ * Runs the migration and validation steps on a decoded entry, without touching the storage.
+ * Expiry is left to the caller. Returns undefined when the entry is unusable.
+ */
+export function resolveEntry<T>(
+  entry: StoredEntry,
+  { version, migrate, validate }: ReadEntryOptions<T> = {},
+): ReadEntryResult<T> | undefined {
+  const resolved = resolveVersion(entry.value, entry.version, { version, migrate })
+  if (!resolved) return undefined
+  if (validate && !validate(resolved.value)) return undefined
+
+  return { ...resolved, expiresAt: entry.expiresAt, ttl: entry.ttl }
+}
+
+/**
+ * Reads a key through an adapter and runs the shared expiry, migration and validation steps.
+ * `decode` turns the raw string into an entry and may throw, callers decide how to surface that.
+ * Returns undefined when the key is missing, expired (the key is removed) or unusable.
+ */
+export function readStoredEntry<T>(
+  adapter: StorageAdapter,
+  key: string,
+  decode: (item: string) => StoredEntry,
+  options: ReadEntryOptions<T> = {},
+): ReadEntryResult<T> | undefined {
+  const item = adapter.get(key)
+  if (!item) return undefined
+
+  const entry = decode(item)
+  if (isExpired(entry.expiresAt)) {
+    adapter.remove(key)
+    return undefined
+  }
+
+  return resolveEntry(entry, options)
+}
+
+/**
+ * Resolves a key store record to the state a hook renders. Published states are used as they are,
+ * raw values go through `parse`. Without `parse` (sealed values are verified after render) a raw
+ * value reads as `initialState`. `initialState` should be kept from the hook's first render, so a
+ * missing value keeps a stable identity.
+ */
+export function resolveStoredRecord<S extends StoredState<unknown>>(
+  record: KeyStoreRecord,
+  initialState: S,
+  parse: ((raw: string) => ResolvedState<S>) | null,
+): ResolvedState<S> {
+  if (record.hasValue) {
+    const published = record.value as S | undefined
+    if (!published) return initialState
+    return isExpired(published.expiresAt)
+      ? { ...initialState, expired: true, expiredValue: published.value }
+      : published
+  }
+  if (record.raw === null || !parse) return initialState
+  return parse(record.raw)
+}
+
+/**
+ * Calls `expireIfDue` once `expiresAt` has passed. Timers are paused while the device sleeps, so it
+ * is called again whenever the tab becomes visible. Returns the cleanup.
+ */
+export function scheduleExpiry(expiresAt: number, expireIfDue: () => void): () => void {
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') expireIfDue()
+  }
+
+  const cleanupTimer = window.setTimeout(expireIfDue, Math.max(0, expiresAt - Date.now()))
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+
+  return () => {
+    clearTimeout(cleanupTimer)
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }
+}
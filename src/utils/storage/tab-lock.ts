@@ -0,0 +1,87 @@
+import { StorageAdapter } from './storage-adapter'
+
+type Lease = {
+  owner: string
+  until: number
+}
+
+// a lease is renewed while its task runs, a tab that closed mid-task frees the lock once it lapses
+const LEASE_DURATION = 10000
+const LEASE_RENEW_INTERVAL = LEASE_DURATION / 2
+const LEASE_RETRY_DELAY = 250
+
+// the lease lives next to the resource it guards
+const leaseKey = (name: string) => `${name}__lease__`
+
+const createOwner = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const readLease = (adapter: StorageAdapter, name: string): Lease | null => {
+  try {
+    const raw = adapter.get(leaseKey(name))
+    return raw ? (JSON.parse(raw) as Lease) : null
+  } catch {
+    return null
+  }
+}
+
+// false while another tab holds a lease that has not lapsed
+const tryAcquireLease = (adapter: StorageAdapter, name: string, owner: string) => {
+  const current = readLease(adapter, name)
+  if (current && current.owner !== owner && current.until > Date.now()) return false
+
+  try {
+    adapter.set(leaseKey(name), JSON.stringify({ owner, until: Date.now() + LEASE_DURATION }))
+  } catch {
+    // a full storage can not hold the lease, running unguarded beats never running
+    return true
+  }
+  // read back, another tab may have written its lease at the same time. a lease that was not
+  // stored at all means storage is unavailable, there is no other tab to coordinate with
+  const stored = readLease(adapter, name)
+  return !stored || stored.owner === owner
+}
+
+const releaseLease = (adapter: StorageAdapter, name: string, owner: string) => {
+  try {
+    if (readLease(adapter, name)?.owner === owner) adapter.remove(leaseKey(name))
+  } catch {
+    // the lease lapses on its own
+  }
+}
+
+/**
+ * Runs `task` while holding a lock shared by every tab of the origin, so only one of them works on
+ * `name` at a time. Uses the Web Locks API, and a lease stored through `adapter` where it is not
+ * available. Waits while another tab holds the lock, `isActive` returning false stops waiting
+ * and skips the task.
+ */
+export async function withTabLock(
+  name: string,
+  adapter: StorageAdapter,
+  task: () => Promise<void>,
+  isActive: () => boolean = () => true,
+): Promise<void> {
+  const locks = typeof navigator === 'undefined' ? undefined : navigator.locks
+  if (typeof locks?.request === 'function') {
+    await locks.request(name, async () => {
+      if (isActive()) await task()
+    })
+    return
+  }
+
+  const owner = createOwner()
+  while (!tryAcquireLease(adapter, name, owner)) {
+    await sleep(LEASE_RETRY_DELAY)
+    if (!isActive()) return
+  }
+
+  const renewTimer = setInterval(() => tryAcquireLease(adapter, name, owner), LEASE_RENEW_INTERVAL)
+  try {
+    if (isActive()) await task()
+  } finally {
+    clearInterval(renewTimer)
+    releaseLease(adapter, name, owner)
+  }
+}